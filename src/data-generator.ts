@@ -1,61 +1,447 @@
-import fs from "node:fs";
-import path from "node:path";
-import OpenAI from "openai";
-import { zodResponseFormat } from "openai/helpers/zod";
+import crypto from "node:crypto";
 import { z } from "zod";
-import { ProductDefinition, ProductReviewDefinition, PropertyGroupDefinition } from "./entities.js";
+import {
+    CategoryDefinition,
+    CrossSellingDefinition,
+    CustomerDefinition,
+    LandingPageDefinition,
+    ManufacturerDefinition,
+    ProductDefinition,
+    ProductReviewDefinition,
+    ProductVariantDefinition,
+    PromotionDefinition,
+    PropertyGroupDefinition,
+} from "./entities.js";
+import { DataValidator } from "./data-validator.js";
+import type { GenerationProvider } from "./generation-provider.js";
+import { type ImageCacheLookup, ImageCache } from "./image-cache.js";
+import { TaskAbortedError, TaskRunner } from "./task-runner.js";
+import { type UsagePhase, UsageTracker } from "./usage-tracker.js";
+
+export type GenerationProgressCallback = (
+    phase: "products" | "images",
+    done: number,
+    total: number,
+) => void;
+
+// Keeps the number of child products per product manageable for a demo shop.
+const MAX_VARIANT_COMBINATIONS = 25;
+
+const CUSTOMERS_PER_REQUEST = 10;
+
+// Limits the prompt size, all known names are still checked for duplicates.
+const MAX_PROMPT_PRODUCT_NAMES = 100;
+
+// The names of the cross-selling groups on the product detail page, by type.
+const CROSS_SELLING_NAMES = {
+    similar: "Similar products",
+    accessories: "Accessories",
+    boughtTogether: "Frequently bought together",
+};
+
+// Promotions with individual codes get this number of codes, each of them can be redeemed once.
+const INDIVIDUAL_CODE_COUNT = 20;
+
+// Landscape sizes for banners differ between the image models, gpt-image-1 is the default.
+const BANNER_IMAGE_SIZES: Record<string, string> = {
+    "dall-e-2": "1024x1024",
+    "dall-e-3": "1792x1024",
+};
+
+// Products with a duplicate name or invalid data are generated again, up to this number of times.
+const MAX_PRODUCT_ATTEMPTS = 3;
+
+// Additional gallery images show the product from these perspectives, in this order.
+const GALLERY_SHOTS = [
+    {
+        label: "Side view",
+        prompt: "The product is shown from a different angle on a pristine white background.",
+    },
+    {
+        label: "In use",
+        prompt: "A lifestyle shot of the product in use in a realistic, fitting environment with natural light.",
+    },
+    {
+        label: "Detail",
+        prompt: "A close-up detail shot that highlights the material, texture and craftsmanship of the product.",
+    },
+    {
+        label: "Lifestyle",
+        prompt: "The product is styled in a modern scene that fits its purpose, photographed like a magazine editorial.",
+    },
+    {
+        label: "Packaging",
+        prompt: "The product is shown together with its packaging on a pristine white background.",
+    },
+];
+
+// Number of option combinations assumed per product when estimating variant images.
+const ESTIMATED_VARIANTS_PER_GROUP = 3;
+
+// Relative frequencies of the order states, payment and delivery states follow the order state.
+const ORDER_STATE_WEIGHTS: [string, number][] = [
+    ["open", 0.2],
+    ["in_progress", 0.2],
+    ["completed", 0.55],
+    ["cancelled", 0.05],
+];
+
+const ORDER_STATE_TRANSITIONS: Record<string, { payment: string; delivery: string }> = {
+    open: { payment: "open", delivery: "open" },
+    in_progress: { payment: "paid", delivery: "open" },
+    completed: { payment: "paid", delivery: "shipped" },
+    cancelled: { payment: "cancelled", delivery: "cancelled" },
+};
 
 export class DataGenerator {
-    public readonly openAI: OpenAI;
-    public readonly imageDir: string;
+    public readonly provider: GenerationProvider;
+    public readonly imageCache: ImageCache;
+    public readonly taskRunner: TaskRunner;
+    public readonly usageTracker: UsageTracker;
+    public readonly dataValidator: DataValidator;
 
-    constructor(openAiApiKey: string, imageDir = "./generatedImages") {
-        if (!openAiApiKey.length || openAiApiKey.length <= 0) {
-            console.error("Missing API key for OpenAI.");
-        }
+    private knownProductNames: string[] = [];
 
-        this.openAI = new OpenAI({
-            apiKey: openAiApiKey,
-        });
+    constructor(
+        provider: GenerationProvider,
+        imageCache = new ImageCache(),
+        taskRunner = new TaskRunner(),
+        usageTracker = new UsageTracker(),
+        dataValidator = new DataValidator(),
+    ) {
+        this.provider = provider;
+        this.imageCache = imageCache;
+        this.taskRunner = taskRunner;
+        this.usageTracker = usageTracker;
+        this.dataValidator = dataValidator;
+    }
 
-        this.imageDir = imageDir;
+    async complete(prompt: string, schema: z.ZodTypeAny, schemaName: string, phase: UsagePhase) {
+        this.usageTracker.assertWithinBudget();
 
-        if (!fs.existsSync(this.imageDir)) {
-            try {
-                fs.mkdirSync(this.imageDir);
-            } catch (err) {
-                console.error(err);
+        const completion = await this.provider.completeStructured(prompt, schema, schemaName);
+        this.usageTracker.recordCompletion(phase, completion.usage);
+
+        return completion.data;
+    }
+
+    async createImage(prompt: string, size = "1024x1024") {
+        this.usageTracker.assertWithinBudget();
+
+        const image = await this.provider.generateImage(prompt, size);
+        this.usageTracker.recordImage();
+
+        return image;
+    }
+
+    async requestCompletion(
+        prompt: string,
+        schema: z.ZodTypeAny,
+        schemaName: string,
+        taskName: string,
+        phase: UsagePhase,
+    ) {
+        return await this.skipWhenAborted(
+            () =>
+                this.taskRunner.retry(
+                    () => this.complete(prompt, schema, schemaName, phase),
+                    taskName,
+                ),
+            null,
+            taskName,
+        );
+    }
+
+    // Single generation steps are skipped once the budget is used up, like the tasks of a pool.
+    private async skipWhenAborted<T>(task: () => Promise<T>, fallback: T, taskName: string) {
+        try {
+            return await task();
+        } catch (e) {
+            if (!(e instanceof TaskAbortedError)) {
+                throw e;
             }
+
+            console.warn(`${taskName} skipped: ${e.message}`);
+            return fallback;
         }
     }
 
-    async generatePropertyGroups(category: string, groupCount = 2) {
+    estimateUsage(
+        productCount: number,
+        generateImages = true,
+        variantGroupCount = 0,
+        generateVariantImages = false,
+        categoryDepth = 0,
+        customerCount = 0,
+        locales: string[] = [],
+        galleryImageCount = 0,
+        crossSelling = false,
+        landingPage = false,
+        promotionCount = 0,
+    ) {
+        const variantCount = Math.min(
+            ESTIMATED_VARIANTS_PER_GROUP ** variantGroupCount,
+            MAX_VARIANT_COMBINATIONS,
+        );
+        const translationRequests = locales.length ? productCount + (landingPage ? 4 : 3) : 0;
+
+        return this.usageTracker.estimate(
+            {
+                propertyGroups: 1,
+                products: productCount + 1,
+                variants: variantGroupCount > 0 ? productCount : 0,
+                crossSelling: crossSelling && productCount > 1 ? 1 : 0,
+                landingPage: landingPage ? 1 : 0,
+                categories: categoryDepth > 0 ? 2 : 0,
+                translations: translationRequests,
+                customers: Math.ceil(customerCount / CUSTOMERS_PER_REQUEST),
+                promotions: promotionCount > 0 ? 1 : 0,
+            },
+            (generateImages ? productCount + (landingPage ? 2 : 1) : 0) +
+                productCount * galleryImageCount +
+                (variantGroupCount > 0 && generateVariantImages ? productCount * variantCount : 0),
+        );
+    }
+
+    async generatePropertyGroups(
+        category: string,
+        groupCount = 2,
+        existingGroups: Record<string, any>[] = [],
+    ) {
         console.log("Generating property group data ...");
 
-        const prompt = `Create realistic sample data for ${groupCount} product property groups in JSON format 
+        let prompt = `Create realistic sample data for ${groupCount} product property groups in JSON format 
                               that could describe the properties of products of the industry ${category}.`;
 
-        const completion = await this.openAI.chat.completions.create({
-            messages: [{ role: "system", content: prompt }],
-            model: "gpt-4.1-2025-04-14",
-            response_format: zodResponseFormat(
-                z.object({
-                    propertyGroups: z.array(PropertyGroupDefinition),
-                }),
-                "propertyGroups",
-            ),
+        if (existingGroups.length) {
+            const groupDescriptions = existingGroups.map((group) => {
+                const optionNames = group.options.map((option: Record<string, any>) => option.name);
+
+                return `${group.name}: ${optionNames.join(", ")}`;
+            });
+
+            prompt = `${prompt} The store already has the following property groups with their options:
+                      ${groupDescriptions.join("\n")}
+                      If a group fits the products, use exactly the same name and only add options that are missing. Use the same names for options that already exist.`;
+        }
+
+        const parsedResponse = await this.requestCompletion(
+            prompt,
+            z.object({
+                propertyGroups: z.array(PropertyGroupDefinition),
+            }),
+            "propertyGroups",
+            "Property group generation",
+            "propertyGroups",
+        );
+
+        const propertyGroups: Record<string, any>[] = parsedResponse
+            ? parsedResponse["propertyGroups"]
+            : [];
+
+        return this.mergePropertyGroups(
+            this.dataValidator.validatePropertyGroups(propertyGroups),
+            existingGroups,
+        );
+    }
+
+    // Groups and options with the name of existing ones are replaced by them, so they are reused.
+    mergePropertyGroups(
+        propertyGroups: Record<string, any>[],
+        existingGroups: Record<string, any>[],
+    ) {
+        const isSameName = (a: string, b: string) =>
+            a.trim().toLowerCase() === b.trim().toLowerCase();
+
+        return propertyGroups.map((group) => {
+            const existingGroup = existingGroups.find((existing) =>
+                isSameName(existing.name, group.name),
+            );
+
+            if (!existingGroup) {
+                return group;
+            }
+
+            const newOptions = group.options.filter(
+                (option: Record<string, any>) =>
+                    !existingGroup.options.some((existingOption: Record<string, any>) =>
+                        isSameName(existingOption.name, option.name),
+                    ),
+            );
+
+            return {
+                ...existingGroup,
+                options: [...existingGroup.options, ...newOptions],
+            };
         });
+    }
 
-        try {
-            if (completion.choices[0]?.message.content) {
-                const parsedResponse = JSON.parse(completion.choices[0].message.content);
-                return parsedResponse["propertyGroups"];
-            } else {
-                return [];
+    addKnownProductNames(names: string[]) {
+        names.forEach((name) => {
+            if (!this.isKnownProductName(name)) {
+                this.knownProductNames.push(name);
             }
+        });
+    }
+
+    isKnownProductName(name: string) {
+        const normalizedName = name.trim().toLowerCase();
+
+        return this.knownProductNames.some(
+            (knownName) => knownName.toLowerCase() === normalizedName,
+        );
+    }
+
+    async generateCategoryTree(theme: string, depth = 2) {
+        console.log("Generating category tree ...");
+
+        let categorySchema: z.ZodTypeAny = CategoryDefinition;
+
+        for (let level = 1; level < depth; level++) {
+            categorySchema = CategoryDefinition.extend({
+                children: z.array(categorySchema),
+            });
+        }
+
+        const prompt = `Create a realistic category tree in JSON format for the navigation of an online store about ${theme}.
+                        The tree should have exactly ${depth} levels of subcategories, each with 2 to 4 categories per level and a short description.
+                        Don't include a category for ${theme} itself, it is the root of the tree.`;
+
+        const parsedResponse = await this.requestCompletion(
+            prompt,
+            z.object({
+                categories: z.array(categorySchema),
+            }),
+            "categoryTree",
+            "Category tree generation",
+            "categories",
+        );
+
+        return (parsedResponse?.["categories"] || []) as Record<string, any>[];
+    }
+
+    getLeafCategoryPaths(categoryTree: Record<string, any>[], parentPath: string[] = []): string[] {
+        return categoryTree.flatMap((category) => {
+            const categoryPath = [...parentPath, category.name];
+
+            if (category.children && category.children.length) {
+                return this.getLeafCategoryPaths(category.children, categoryPath);
+            }
+
+            return [categoryPath.join(" > ")];
+        });
+    }
+
+    async assignProductsToCategories(
+        products: Record<string, any>[],
+        categoryTree: Record<string, any>[],
+    ) {
+        const leafCategoryPaths = this.getLeafCategoryPaths(categoryTree);
+
+        if (!leafCategoryPaths.length || !products.length) {
+            return products;
+        }
+
+        console.log("Assigning products to categories ...");
+
+        const productDescriptions = products.map((product, index) => {
+            return `${index + 1}. ${product.name}`;
+        });
+
+        const prompt = `Assign each of the following products to the best fitting category of an online store.
+                        Products:
+                        ${productDescriptions.join("\n")}
+                        Return the assignments in JSON format, referenced by the number of the product.`;
+
+        const parsedResponse = await this.requestCompletion(
+            prompt,
+            z.object({
+                assignments: z.array(
+                    z.object({
+                        productNumber: z.number().int(),
+                        categoryPath: z.enum(leafCategoryPaths as [string, ...string[]]),
+                    }),
+                ),
+            }),
+            "assignments",
+            "Category assignment",
+            "categories",
+        );
+
+        const assignments: Record<string, any>[] = parsedResponse?.["assignments"] || [];
+
+        // Products without an assignment are spread evenly across the leaf categories.
+        products.forEach((product, index) => {
+            const assignment = assignments.find((a) => a.productNumber === index + 1);
+
+            product.categoryPath =
+                assignment?.categoryPath ?? leafCategoryPaths[index % leafCategoryPaths.length];
+        });
+
+        return products;
+    }
+
+    // All products of a run share one fictional manufacturer. Without it, products are still
+    // generated, so a failure is only recorded.
+    async generateManufacturer(
+        category: string,
+        generateLogo = true,
+        additionalInformation: string = "",
+    ) {
+        console.log("Generating manufacturer data ...");
+
+        const taskName = "Manufacturer generation";
+
+        let prompt = `Create realistic sample data for a fictional manufacturer of products of the industry ${category} in JSON format.
+                      The manufacturer must not be a real-world brand. Describe it in two or three sentences.`;
+
+        if (additionalInformation && additionalInformation.trim().length > 0) {
+            prompt = `${prompt} Consider the following additional context for the manufacturer: \"${additionalInformation}\".`;
+        }
+
+        let manufacturer: Record<string, any> | null = null;
+
+        try {
+            manufacturer = await this.requestCompletion(
+                prompt,
+                ManufacturerDefinition,
+                "manufacturer",
+                taskName,
+                "products",
+            );
         } catch (e) {
-            console.error(e);
+            this.taskRunner.recordFailure(taskName, e);
         }
+
+        if (!manufacturer || !generateLogo) {
+            return manufacturer;
+        }
+
+        const logoTaskName = `Logo of manufacturer ${manufacturer.name}`;
+        const logoLookup = {
+            prompt: `Create a simple, modern logo for the fictional manufacturer ${manufacturer.name} of the industry ${category} on a white background. ${manufacturer.description}`,
+            model: this.provider.imageModel,
+            size: "1024x1024",
+            productName: manufacturer.name,
+            category: category,
+            kind: "logo",
+        };
+
+        const logoBase64 = await this.skipWhenAborted(
+            () => this.createCachedImage(logoLookup, logoTaskName),
+            "",
+            logoTaskName,
+        );
+
+        if (logoBase64.length) {
+            manufacturer.logo = {
+                name: `${manufacturer.name.replace(/[^a-zA-Z0-9]/g, "")}Logo`,
+                type: ".png",
+                data: logoBase64,
+            };
+        }
+
+        return manufacturer;
     }
 
     async generateProducts(
@@ -66,29 +452,80 @@ export class DataGenerator {
         generateReviews = true,
         descriptionWordCount = 200,
         additionalInformation: string = "",
+        onProgress: GenerationProgressCallback | null = null,
+        manufacturer: Record<string, any> | null = null,
     ) {
         console.log(`Generating product data ...`);
 
-        const productRequests = [];
+        let productsDone = 0;
 
-        for (let i = 0; i < productCount; i++) {
-            productRequests.push(
-                this.generateProduct(
-                    category,
-                    propertyGroups,
-                    generateReviews,
-                    descriptionWordCount,
-                    additionalInformation,
-                ),
-            );
-        }
+        const productResults = await this.taskRunner.run(
+            Array.from({ length: productCount }, (_, index) => index),
+            async () => {
+                let errors: string[] = [];
+
+                // Products run in parallel, so a name can still repeat despite the prompt.
+                for (let attempt = 0; attempt < MAX_PRODUCT_ATTEMPTS; attempt++) {
+                    const product = await this.generateProduct(
+                        category,
+                        propertyGroups,
+                        generateReviews,
+                        descriptionWordCount,
+                        additionalInformation,
+                        manufacturer,
+                    );
+
+                    if (!product) {
+                        throw new Error("No product data was returned.");
+                    }
 
-        const products = await Promise.all(productRequests);
+                    errors = this.dataValidator.validateProduct(product, descriptionWordCount);
+
+                    if (errors.length) {
+                        if (attempt < MAX_PRODUCT_ATTEMPTS - 1) {
+                            this.dataValidator.recordRegeneration("product", product.name, errors);
+                            console.warn(
+                                `Product ${product.name} is invalid (${errors.join(", ")}), generating another one.`,
+                            );
+                        } else {
+                            this.dataValidator.recordDrop("product", product.name, errors);
+                        }
+
+                        continue;
+                    }
+
+                    if (!this.isKnownProductName(product.name)) {
+                        this.addKnownProductNames([product.name]);
+                        product.ean = this.createEan(product.name);
+                        return product;
+                    }
+
+                    console.warn(`Product ${product.name} already exists, generating another one.`);
+                }
+
+                throw new Error(
+                    errors.length
+                        ? `No valid product could be generated: ${errors.join(", ")}.`
+                        : "No product with a new name could be generated.",
+                );
+            },
+            (_, index) => `Product ${index + 1} of ${productCount}`,
+            () => onProgress?.("products", ++productsDone, productCount),
+        );
+
+        const products = productResults.filter(
+            (product): product is Record<string, any> => !!product,
+        );
 
         if (!generateImages) {
             return products;
         } else {
-            return await this.generateProductImages(products, category, additionalInformation);
+            return await this.generateProductImages(
+                products,
+                category,
+                additionalInformation,
+                onProgress,
+            );
         }
     }
 
@@ -98,12 +535,20 @@ export class DataGenerator {
         generateReviews = true,
         descriptionWordCount = 200,
         additionalInformation: string = "",
+        manufacturer: Record<string, any> | null = null,
     ) {
         let schema = ProductDefinition;
 
         let prompt = `Create realistic sample data for a product of an online store in JSON format. 
                       The product should resemble a realistic item of the industry ${category}, but not from real-world brands.
-                      The product description should contain at least ${descriptionWordCount} words. You can use simple html to format the description.`;
+                      The product description should contain at least ${descriptionWordCount} words. You can use simple html to format the description.
+                      Add the manufacturer number, the weight in kilograms and the width, height and length of the package in millimeters.
+                      Only about a third of the products are on sale and get a list price above the price, the list price of all others is null.
+                      Add a meta title and a meta description of at most 160 characters and comma-separated keywords for search engines.`;
+
+        if (manufacturer) {
+            prompt = `${prompt} The product is made by the manufacturer ${manufacturer.name}: ${manufacturer.description}`;
+        }
 
         if (generateReviews) {
             schema = schema.extend({
@@ -113,15 +558,16 @@ export class DataGenerator {
             prompt = `${prompt} The product should have at least five realistic reviews with points between 1 and 5.`;
         }
 
-        if (propertyGroups) {
-            const options: string[] = [];
+        const options: string[] = [];
 
-            propertyGroups.forEach((group: Record<string, any>) => {
-                group.options.forEach((option: Record<string, any>) => {
-                    options.push(option.id);
-                });
+        (propertyGroups || []).forEach((group: Record<string, any>) => {
+            group.options.forEach((option: Record<string, any>) => {
+                options.push(option.id);
             });
+        });
 
+        // An enum needs at least one value, the API rejects the schema otherwise.
+        if (options.length) {
             schema = schema.extend({
                 options: z.array(
                     z.object({
@@ -137,51 +583,709 @@ export class DataGenerator {
             prompt = `${prompt} Consider the following additional context for the product and its description: \"${additionalInformation}\".`;
         }
 
-        const completion = await this.openAI.chat.completions.create({
-            messages: [{ role: "system", content: prompt }],
-            model: "gpt-4.1-2025-04-14",
-            response_format: zodResponseFormat(schema, "product"),
+        if (this.knownProductNames.length) {
+            const productNames = this.knownProductNames.slice(-MAX_PROMPT_PRODUCT_NAMES);
+
+            prompt = `${prompt} The store already sells the following products, so the product needs a different name and should be a different item: ${productNames.join(", ")}.`;
+        }
+
+        const product = await this.complete(prompt, schema, "product", "products");
+
+        if (product) {
+            return product;
+        }
+    }
+
+    async generateProductVariants(
+        products: Record<string, any>[],
+        variantGroups: Record<string, any>[],
+        category: string,
+        generateImages = false,
+    ) {
+        if (!variantGroups.length) {
+            return products;
+        }
+
+        console.log("Generating product variants ...");
+
+        const variantResults = await this.taskRunner.run(
+            products,
+            async (product) => {
+                return await this.generateProductVariant(product, variantGroups, category);
+            },
+            (product) => `Variants of product ${product.name}`,
+        );
+
+        // Products whose variants couldn't be generated are kept as simple products.
+        const variantProducts = products.map((product, index) => variantResults[index] ?? product);
+
+        if (generateImages) {
+            const variants = variantProducts.flatMap((product) =>
+                (product.variants || []).map((variant: Record<string, any>) => {
+                    return { product: product, variant: variant };
+                }),
+            );
+
+            await this.taskRunner.run(
+                variants,
+                async ({ product, variant }) => {
+                    const optionNames = variant.options
+                        .map((option: Record<string, any>) => option.name)
+                        .join(" ");
+
+                    const variantProduct = await this.generateProductImage(
+                        {
+                            name: `${product.name} ${optionNames}`,
+                            description: product.description,
+                        },
+                        category,
+                    );
+
+                    variant.image = variantProduct.image;
+                },
+                ({ product }) => `Variant image of product ${product.name}`,
+            );
+        }
+
+        return variantProducts;
+    }
+
+    async generateProductVariant(
+        product: Record<string, any>,
+        variantGroups: Record<string, any>[],
+        category: string,
+    ) {
+        const selectedOptionIds = new Set(
+            (product.options || []).map((option: Record<string, any>) => option.id),
+        );
+
+        // Groups without a selected option offer all of their options as variants.
+        const optionSets = variantGroups.map((group) => {
+            const options = group.options.map((option: Record<string, any>) => {
+                return { id: option.id, name: option.name, groupName: group.name };
+            });
+            const selectedOptions = options.filter((option: Record<string, any>) =>
+                selectedOptionIds.has(option.id),
+            );
+
+            return selectedOptions.length ? selectedOptions : options;
+        });
+
+        let combinations: Record<string, any>[][] = [[]];
+
+        optionSets.forEach((options: Record<string, any>[]) => {
+            combinations = combinations.flatMap((combination) =>
+                options.map((option) => [...combination, option]),
+            );
+        });
+
+        combinations = combinations.slice(0, MAX_VARIANT_COMBINATIONS);
+
+        const variantDescriptions = combinations.map((combination, index) => {
+            const optionNames = combination
+                .map((option) => `${option.groupName}: ${option.name}`)
+                .join(", ");
+
+            return `${index + 1}. ${optionNames}`;
         });
 
+        const prompt = `The product "${product.name}" of the industry ${category} costs ${product.price} and has a stock of ${product.stock}.
+                        It is sold in the following variants:
+                        ${variantDescriptions.join("\n")}
+                        Create realistic sample data in JSON format with the stock and the price difference to the base price for each variant, referenced by its variant number.`;
+
+        const parsedResponse = await this.complete(
+            prompt,
+            z.object({
+                variants: z.array(ProductVariantDefinition),
+            }),
+            "variants",
+            "variants",
+        );
+
+        const variantDetails: Record<string, any>[] = parsedResponse?.["variants"] || [];
+
+        const variantOptionIds = new Set(
+            variantGroups.flatMap((group) =>
+                group.options.map((option: Record<string, any>) => option.id),
+            ),
+        );
+
+        product.variantGroups = variantGroups.map((group) => {
+            return { id: group.id, name: group.name, displayType: group.displayType };
+        });
+
+        // Variant options are defined by the child products, not as properties of the parent.
+        product.options = (product.options || []).filter(
+            (option: Record<string, any>) => !variantOptionIds.has(option.id),
+        );
+
+        product.variants = combinations.map((combination, index) => {
+            const details = variantDetails.find((variant) => variant.variantNumber === index + 1);
+
+            return {
+                options: combination,
+                stock: details?.stock ?? Math.floor(product.stock / combinations.length),
+                priceDelta: details?.priceDelta ?? 0,
+                ean: this.createEan(`${product.name} ${index + 1}`),
+            };
+        });
+
+        return this.dataValidator.validateVariants(product);
+    }
+
+    // Products reference each other by name, so the relations survive an export of the dataset.
+    async generateCrossSellings(products: Record<string, any>[], category: string) {
+        if (products.length < 2) {
+            return products;
+        }
+
+        console.log("Generating cross-selling ...");
+
+        const productList = products.map((product, index) => `${index + 1}. ${product.name}`);
+
+        const prompt = `An online store of the industry ${category} sells the following products:
+                        ${productList.join("\n")}
+                        Create cross-selling recommendations in JSON format. For each product, reference the products of the list by their number that are similar products, accessories or frequently bought together.
+                        A product can appear in several lists, but never in its own. Leave a list empty if no product fits.`;
+
+        const taskName = "Cross-selling generation";
+        let recommendations: Record<string, any>[] = [];
+
+        // Products without cross-selling are still complete, so a failure is only recorded.
         try {
-            if (completion.choices[0]?.message.content) {
-                return JSON.parse(completion.choices[0].message.content);
+            const parsedResponse = await this.requestCompletion(
+                prompt,
+                z.object({
+                    products: z.array(CrossSellingDefinition),
+                }),
+                "crossSelling",
+                taskName,
+                "crossSelling",
+            );
+
+            recommendations = parsedResponse?.["products"] || [];
+        } catch (e) {
+            this.taskRunner.recordFailure(taskName, e);
+        }
+
+        products.forEach((product, index) => {
+            const recommendation = recommendations.find((r) => r.productNumber === index + 1);
+
+            if (!recommendation) {
+                return;
             }
+
+            // Numbers outside of the list and the product itself are ignored.
+            product.crossSellings = Object.entries(CROSS_SELLING_NAMES)
+                .map(([type, name]) => {
+                    const productNames = [...new Set<number>(recommendation[type] || [])]
+                        .filter((number) => number !== index + 1)
+                        .map((number) => products[number - 1]?.name)
+                        .filter((productName): productName is string => !!productName);
+
+                    return { name: name, productNames: productNames };
+                })
+                .filter((crossSelling) => crossSelling.productNames.length);
+        });
+
+        return products;
+    }
+
+    // The texts and the hero banner of the landing page of the category. Without them, the
+    // category keeps the default listing, so a failure is only recorded.
+    async generateLandingPage(
+        category: string,
+        products: Record<string, any>[],
+        generateBanner = true,
+        additionalInformation: string = "",
+    ) {
+        console.log("Generating landing page ...");
+
+        const taskName = "Landing page generation";
+        const productNames = products
+            .slice(0, MAX_PROMPT_PRODUCT_NAMES)
+            .map((product) => product.name);
+
+        let prompt = `Create the texts of the landing page of the category ${category} of an online store in JSON format.
+                      Write a short, catchy headline, an introduction of two or three sentences as HTML paragraphs and a title for a slider with the following products: ${productNames.join(", ")}.`;
+
+        if (additionalInformation && additionalInformation.trim().length > 0) {
+            prompt = `${prompt} Consider the following additional context for the landing page: \"${additionalInformation}\".`;
+        }
+
+        let landingPage: Record<string, any> | null = null;
+
+        try {
+            landingPage = await this.requestCompletion(
+                prompt,
+                LandingPageDefinition,
+                "landingPage",
+                taskName,
+                "landingPage",
+            );
         } catch (e) {
-            console.error(e);
+            this.taskRunner.recordFailure(taskName, e);
         }
+
+        if (!landingPage || !generateBanner) {
+            return landingPage;
+        }
+
+        const bannerTaskName = `Banner of the landing page of ${category}`;
+        const bannerLookup = {
+            prompt: `Create a wide hero banner photo for the ${category} category of an online store. ${landingPage.headline}. The image must not contain any text.`,
+            model: this.provider.imageModel,
+            size: BANNER_IMAGE_SIZES[this.provider.imageModel] ?? "1536x1024",
+            productName: category,
+            category: category,
+            kind: "banner",
+        };
+
+        const bannerBase64 = await this.skipWhenAborted(
+            () => this.createCachedImage(bannerLookup, bannerTaskName),
+            "",
+            bannerTaskName,
+        );
+
+        if (bannerBase64.length) {
+            landingPage.banner = {
+                name: `${category.replace(/[^a-zA-Z0-9]/g, "")}Banner`,
+                type: ".png",
+                data: bannerBase64,
+                alt: landingPage.headline,
+            };
+        }
+
+        return landingPage;
     }
 
-    async generateProductImages(products: Record<string, any>[], category: string, additionalInformation: string = "") {
-        console.log("Generating product images ...");
+    async generateCustomers(customerCount = 10, country = "Germany") {
+        console.log("Generating customer data ...");
 
-        return await Promise.all(
-            products.map(async (product) => {
-                return await this.generateProductImage(product, category, additionalInformation);
+        const batchSizes = [];
+
+        for (let offset = 0; offset < customerCount; offset += CUSTOMERS_PER_REQUEST) {
+            batchSizes.push(Math.min(CUSTOMERS_PER_REQUEST, customerCount - offset));
+        }
+
+        const customerResults = await this.taskRunner.run(
+            batchSizes,
+            async (count) => {
+                const prompt = `Create realistic sample data for ${count} customers of an online store in JSON format.
+                                The customers live in ${country} and should have diverse, realistic names and addresses of ${country}.
+                                Use email addresses of the domain example.com.`;
+
+                const parsedResponse = await this.complete(
+                    prompt,
+                    z.object({
+                        customers: z.array(CustomerDefinition),
+                    }),
+                    "customers",
+                    "customers",
+                );
+
+                return (parsedResponse?.["customers"] || []) as Record<string, any>[];
+            },
+            (_, index) => `Customer batch ${index + 1} of ${batchSizes.length}`,
+        );
+
+        const customers = customerResults.flatMap((batch) => batch || []);
+
+        return this.dataValidator.validateCustomers(customers.slice(0, customerCount));
+    }
+
+    async generatePromotions(
+        promotionCount: number,
+        category: string,
+        additionalInformation: string = "",
+    ) {
+        console.log("Generating promotion data ...");
+
+        let prompt = `Create realistic sample data for ${promotionCount} promotions of an online store for products of the industry ${category} in JSON format.
+                      Each promotion has a catchy name, a short code of uppercase letters and digits, a percentage discount between 5 and 30 or an absolute discount in EUR, and the number of days it's valid.
+                      Use individual codes for some promotions, e.g. for newsletter subscribers. A promotion applies either to the ${category} products only or to the whole cart of the sales channel.`;
+
+        if (additionalInformation && additionalInformation.trim().length > 0) {
+            prompt = `${prompt} Consider the following additional context for the promotions: \"${additionalInformation}\".`;
+        }
+
+        const taskName = "Promotion generation";
+        let promotions: Record<string, any>[] = [];
+
+        // Promotions are optional for the generated products, so a failure is only recorded.
+        try {
+            const parsedResponse = await this.requestCompletion(
+                prompt,
+                z.object({
+                    promotions: z.array(PromotionDefinition),
+                }),
+                "promotions",
+                taskName,
+                "promotions",
+            );
+
+            promotions = parsedResponse?.["promotions"] || [];
+        } catch (e) {
+            this.taskRunner.recordFailure(taskName, e);
+        }
+
+        return this.dataValidator
+            .validatePromotions(promotions.slice(0, promotionCount))
+            .map((promotion) => {
+                if (promotion.individualCodes) {
+                    promotion.codes = this.createIndividualCodes(promotion.code);
+                }
+
+                return promotion;
+            });
+    }
+
+    generateOrders(
+        orderCount: number,
+        customerCount: number,
+        productCount: number,
+        periodDays = 90,
+    ) {
+        if (!customerCount || !productCount) {
+            console.warn("Orders need at least one customer and one product.");
+            return [];
+        }
+
+        console.log("Generating order data ...");
+
+        const now = Date.now();
+        const orders = [];
+
+        for (let i = 0; i < orderCount; i++) {
+            const lineItemCount = Math.min(
+                productCount,
+                1 + this.randomInt(3, "order", i, "items"),
+            );
+            const productIndexes = new Set<number>();
+
+            for (let draw = 0; productIndexes.size < lineItemCount; draw++) {
+                productIndexes.add(this.randomInt(productCount, "order", i, "product", draw));
+            }
+
+            const orderState = this.pickWeighted(
+                ORDER_STATE_WEIGHTS,
+                this.random("order", i, "state"),
+            );
+
+            orders.push({
+                customerIndex: this.randomInt(customerCount, "order", i, "customer"),
+                orderDate: new Date(
+                    now - this.random("order", i, "date") * periodDays * 24 * 60 * 60 * 1000,
+                ),
+                orderState: orderState,
+                paymentState: ORDER_STATE_TRANSITIONS[orderState]?.payment ?? "open",
+                deliveryState: ORDER_STATE_TRANSITIONS[orderState]?.delivery ?? "open",
+                lineItems: [...productIndexes].map((productIndex) => {
+                    return {
+                        productIndex: productIndex,
+                        quantity: 1 + this.randomInt(3, "order", i, "quantity", productIndex),
+                    };
+                }),
+            });
+        }
+
+        return orders.sort((a, b) => a.orderDate.getTime() - b.orderDate.getTime());
+    }
+
+    private pickWeighted(weights: [string, number][], random: number) {
+        random *= weights.reduce((sum, [, weight]) => sum + weight, 0);
+
+        for (const [value, weight] of weights) {
+            random -= weight;
+
+            if (random <= 0) {
+                return value;
+            }
+        }
+
+        return weights[weights.length - 1]?.[0] ?? "open";
+    }
+
+    async translateTexts(texts: Record<string, string>, locales: string[]) {
+        const keys = Object.keys(texts);
+
+        if (!keys.length || !locales.length) {
+            return {};
+        }
+
+        const prompt = `Translate the following texts of an online store into these locales: ${locales.join(", ")}.
+                        Keep the html formatting, the meaning and the tone of the texts. Names of fictional products should only be translated if they contain common words.
+                        Return every text for every locale in JSON format, referenced by its key.
+                        ${JSON.stringify(texts)}`;
+
+        const parsedResponse = await this.complete(
+            prompt,
+            z.object({
+                translations: z.array(
+                    z.object({
+                        locale: z.enum(locales as [string, ...string[]]),
+                        texts: z.array(
+                            z.object({
+                                key: z.enum(keys as [string, ...string[]]),
+                                text: z.string(),
+                            }),
+                        ),
+                    }),
+                ),
             }),
+            "translations",
+            "translations",
         );
+
+        const translations: Record<string, Record<string, string>> = {};
+
+        (parsedResponse?.["translations"] || []).forEach((translation: Record<string, any>) => {
+            translations[translation.locale] = Object.fromEntries(
+                translation.texts.map((text: Record<string, string>) => [text.key, text.text]),
+            );
+        });
+
+        return translations;
     }
 
-    async generateProductImage(product: Record<string, any>, category: string, additionalInformation: string = "") {
-        const categoryImageDir = this.createCategoryImageDir(category);
+    async translatePropertyGroups(propertyGroups: Record<string, any>[], locales: string[]) {
+        if (!locales.length) {
+            return propertyGroups;
+        }
 
-        const imageName = product.name.replace(/[^a-zA-Z]/g, "");
-        const imageFsPath = path.join(categoryImageDir, `${imageName}.png`);
+        console.log("Translating property groups ...");
 
-        if (fs.existsSync(imageFsPath)) {
-            const imageBase64 = fs.readFileSync(imageFsPath, { encoding: "base64" });
+        const texts: Record<string, string> = {};
 
-            product.image = {
-                name: imageName,
-                type: ".png",
-                data: imageBase64,
-            };
+        // Existing groups and options are already translated in the environment.
+        propertyGroups.forEach((group, groupIndex) => {
+            if (!group.existing) {
+                texts[`${groupIndex}.name`] = group.name;
+                texts[`${groupIndex}.description`] = group.description;
+            }
 
-            console.log(`Image for product ${product.name} used from image cache.`);
+            group.options.forEach((option: Record<string, any>, optionIndex: number) => {
+                if (!option.existing) {
+                    texts[`${groupIndex}.options.${optionIndex}.name`] = option.name;
+                }
+            });
+        });
 
-            return product;
+        const translations = await this.skipWhenAborted(
+            () =>
+                this.taskRunner.retry(
+                    () => this.translateTexts(texts, locales),
+                    "Translation of property groups",
+                ),
+            {},
+            "Translation of property groups",
+        );
+
+        propertyGroups.forEach((group, groupIndex) => {
+            group.translations = this.pickTranslations(translations, {
+                name: `${groupIndex}.name`,
+                description: `${groupIndex}.description`,
+            });
+
+            group.options.forEach((option: Record<string, any>, optionIndex: number) => {
+                option.translations = this.pickTranslations(translations, {
+                    name: `${groupIndex}.options.${optionIndex}.name`,
+                });
+            });
+        });
+
+        return propertyGroups;
+    }
+
+    async translateProducts(products: Record<string, any>[], locales: string[]) {
+        if (!locales.length) {
+            return products;
         }
 
+        console.log("Translating product data ...");
+
+        const translationResults = await this.taskRunner.run(
+            products,
+            async (product) => {
+                return await this.translateProduct(product, locales);
+            },
+            (product) => `Translation of product ${product.name}`,
+        );
+
+        // Products without translations are still written in the default language.
+        return products.map((product, index) => translationResults[index] ?? product);
+    }
+
+    async translateProduct(product: Record<string, any>, locales: string[]) {
+        const texts: Record<string, string> = {
+            name: product.name,
+            description: product.description,
+        };
+
+        ["metaTitle", "metaDescription", "keywords"]
+            .filter((field) => product[field])
+            .forEach((field) => {
+                texts[field] = product[field];
+            });
+
+        (product.productReviews || []).forEach((review: Record<string, any>, index: number) => {
+            texts[`productReviews.${index}.title`] = review.title;
+            texts[`productReviews.${index}.content`] = review.content;
+        });
+
+        const translations = await this.translateTexts(texts, locales);
+
+        product.translations = this.pickTranslations(translations, {
+            name: "name",
+            description: "description",
+            metaTitle: "metaTitle",
+            metaDescription: "metaDescription",
+            keywords: "keywords",
+        });
+
+        (product.productReviews || []).forEach((review: Record<string, any>, index: number) => {
+            review.translations = this.pickTranslations(translations, {
+                title: `productReviews.${index}.title`,
+                content: `productReviews.${index}.content`,
+            });
+        });
+
+        return product;
+    }
+
+    async translateManufacturer(manufacturer: Record<string, any>, locales: string[]) {
+        const taskName = `Translation of manufacturer ${manufacturer.name}`;
+        const translations = await this.skipWhenAborted(
+            () =>
+                this.taskRunner.retry(
+                    () => this.translateTexts({ description: manufacturer.description }, locales),
+                    taskName,
+                ),
+            {},
+            taskName,
+        );
+
+        manufacturer.translations = this.pickTranslations(translations, {
+            description: "description",
+        });
+
+        return manufacturer;
+    }
+
+    async translateLandingPage(landingPage: Record<string, any>, locales: string[]) {
+        const taskName = "Translation of the landing page";
+        const translations = await this.skipWhenAborted(
+            () =>
+                this.taskRunner.retry(
+                    () =>
+                        this.translateTexts(
+                            {
+                                headline: landingPage.headline,
+                                introText: landingPage.introText,
+                                sliderTitle: landingPage.sliderTitle,
+                            },
+                            locales,
+                        ),
+                    taskName,
+                ),
+            {},
+            taskName,
+        );
+
+        landingPage.translations = this.pickTranslations(translations, {
+            headline: "headline",
+            introText: "introText",
+            sliderTitle: "sliderTitle",
+        });
+
+        return landingPage;
+    }
+
+    // The category tree is translated together with its root category in a single request.
+    async translateCategory(
+        category: string,
+        locales: string[],
+        categoryTree: Record<string, any>[] = [],
+    ) {
+        const texts: Record<string, string> = { name: category };
+        const treeCategories = this.getTreeCategories(categoryTree);
+
+        treeCategories.forEach((treeCategory, index) => {
+            texts[`categories.${index}.name`] = treeCategory.name;
+            texts[`categories.${index}.description`] = treeCategory.description;
+        });
+
+        const taskName = `Translation of category ${category}`;
+        const translations = await this.skipWhenAborted(
+            () => this.taskRunner.retry(() => this.translateTexts(texts, locales), taskName),
+            {},
+            taskName,
+        );
+
+        treeCategories.forEach((treeCategory, index) => {
+            treeCategory.translations = this.pickTranslations(translations, {
+                name: `categories.${index}.name`,
+                description: `categories.${index}.description`,
+            });
+        });
+
+        return this.pickTranslations(translations, { name: "name" });
+    }
+
+    private getTreeCategories(categoryTree: Record<string, any>[]): Record<string, any>[] {
+        return categoryTree.flatMap((category) => [
+            category,
+            ...this.getTreeCategories(category.children || []),
+        ]);
+    }
+
+    private pickTranslations(
+        translations: Record<string, Record<string, string>>,
+        fields: Record<string, string>,
+    ) {
+        const picked: Record<string, Record<string, string>> = {};
+
+        Object.entries(translations).forEach(([locale, texts]) => {
+            Object.entries(fields).forEach(([field, key]) => {
+                if (texts[key]) {
+                    picked[locale] = { ...picked[locale], [field]: texts[key] };
+                }
+            });
+        });
+
+        return picked;
+    }
+
+    async generateProductImages(
+        products: Record<string, any>[],
+        category: string,
+        additionalInformation: string = "",
+        onProgress: GenerationProgressCallback | null = null,
+    ) {
+        console.log("Generating product images ...");
+
+        let imagesDone = 0;
+
+        const imageResults = await this.taskRunner.run(
+            products,
+            async (product) => {
+                return await this.generateProductImage(product, category, additionalInformation);
+            },
+            (product) => `Image of product ${product.name}`,
+            () => onProgress?.("images", ++imagesDone, products.length),
+        );
+
+        return products.map((product, index) => imageResults[index] ?? product);
+    }
+
+    async generateProductImage(
+        product: Record<string, any>,
+        category: string,
+        additionalInformation: string = "",
+    ) {
+        const imageName = product.name.replace(/[^a-zA-Z0-9]/g, "");
+
         let prompt = `CRITICAL INSTRUCTION: Create a professional, commercial studio photograph of a photo-realistic product image. The image must be on a pristine white background with a clean, hard-edged shadow underneath the product. 
 			No text, logos, or other distracting elements are allowed. The product should be captured with a high-end DSLR camera using a macro lens, set with a shallow depth of field (f/1.8). 
 			The lighting is soft and even, highlighting the product's details and texture without harsh reflections. 
@@ -191,57 +1295,184 @@ export class DataGenerator {
             prompt = `${prompt} Additional context to consider for the image styling or details: \"${additionalInformation}\".`;
         }
 
-        let imageBase64: string = "";
-
-        try {
-            const imageResponse = await this.openAI.images.generate({
-                model: "gpt-image-1",
+        const imageBase64 = await this.createCachedImage(
+            {
                 prompt: prompt,
+                model: this.provider.imageModel,
                 size: "1024x1024",
-                n: 1,
-            });
-
-            if (imageResponse.data[0] && imageResponse.data[0]["b64_json"]) {
-                imageBase64 = imageResponse.data[0]["b64_json"];
-            }
-        } catch (e) {
-            console.warn(e);
-        }
+                productName: product.name,
+                category: category,
+                kind: "cover",
+            },
+            `Image of product ${product.name}`,
+        );
 
         if (!imageBase64.length) {
             return product;
         }
 
-        if (!fs.existsSync(imageFsPath)) {
-            try {
-                fs.writeFileSync(imageFsPath, imageBase64, "base64");
-            } catch (err) {
-                console.error(err);
-            }
+        product.image = {
+            name: imageName,
+            type: ".png",
+            data: imageBase64,
+        };
+
+        return product;
+    }
+
+    async generateProductGalleries(
+        products: Record<string, any>[],
+        category: string,
+        imageCount = 0,
+    ) {
+        if (imageCount <= 0) {
+            return products;
         }
 
-        console.log(`Image for product ${product.name} generated successfully.`);
+        console.log("Generating product gallery images ...");
 
-        product.image = {
+        const galleryImages = products.flatMap((product) =>
+            Array.from({ length: imageCount }, (_, index) => {
+                return { product: product, index: index };
+            }),
+        );
+
+        const imageResults = await this.taskRunner.run(
+            galleryImages,
+            async ({ product, index }) => {
+                return await this.generateGalleryImage(product, category, index);
+            },
+            ({ product, index }) => `Gallery image ${index + 1} of product ${product.name}`,
+        );
+
+        // Images keep the order of their shots, failed images are left out.
+        products.forEach((product) => {
+            product.gallery = galleryImages
+                .map((galleryImage, index) =>
+                    galleryImage.product === product ? imageResults[index] : undefined,
+                )
+                .filter((image) => !!image);
+        });
+
+        return products;
+    }
+
+    async generateGalleryImage(product: Record<string, any>, category: string, index: number) {
+        const shot = GALLERY_SHOTS[index % GALLERY_SHOTS.length] as (typeof GALLERY_SHOTS)[number];
+
+        const imageName = `${product.name.replace(/[^a-zA-Z0-9]/g, "")}-${index + 1}`;
+
+        const prompt = `Create a professional, photo-realistic product photograph for an online store. ${shot.prompt}
+                        No text, logos, or other distracting elements are allowed.
+                        The product picture should match the name ${product.name} with the product description: ${product.description} from the category ${category}.`;
+
+        const imageBase64 = await this.createCachedImage(
+            {
+                prompt: prompt,
+                model: this.provider.imageModel,
+                size: "1024x1024",
+                productName: product.name,
+                category: category,
+                kind: `gallery-${index + 1}`,
+            },
+            `Gallery image ${index + 1} of product ${product.name}`,
+        );
+
+        if (!imageBase64.length) {
+            return undefined;
+        }
+
+        return {
             name: imageName,
             type: ".png",
             data: imageBase64,
+            alt: `${product.name} - ${shot.label}`,
         };
+    }
 
-        return product;
+    // Codes follow the Shopware pattern PREFIX-%s%s%s%s%s, i.e. five random uppercase letters.
+    createIndividualCodes(prefix: string, count = INDIVIDUAL_CODE_COUNT) {
+        const codes = new Set<string>();
+
+        for (let draw = 0; codes.size < count; draw++) {
+            const letters = Array.from({ length: 5 }, (_, index) =>
+                String.fromCharCode(65 + this.randomInt(26, "code", prefix, draw, index)),
+            );
+
+            codes.add(`${prefix}-${letters.join("")}`);
+        }
+
+        return [...codes];
+    }
+
+    // EANs with the prefix 2 are reserved for internal use, so they never belong to real products.
+    createEan(name: string) {
+        const digits = [
+            2,
+            ...Array.from({ length: 11 }, (_, index) => this.randomInt(10, "ean", name, index)),
+        ];
+        const sum = digits.reduce((total, digit, index) => total + digit * (index % 2 ? 3 : 1), 0);
+
+        return [...digits, (10 - (sum % 10)) % 10].join("");
+    }
+
+    // With a seed, the same parts always give the same number, no matter in which order the
+    // concurrent tasks finish. Without one, the numbers are random in every run.
+    private random(...parts: (string | number)[]) {
+        const seed = this.provider.seed;
+
+        if (seed === undefined || seed === null) {
+            return crypto.randomInt(2 ** 32) / 2 ** 32;
+        }
+
+        return (
+            crypto
+                .createHash("sha256")
+                .update(JSON.stringify([seed, ...parts]))
+                .digest()
+                .readUInt32BE(0) /
+            2 ** 32
+        );
     }
 
-    createCategoryImageDir(category: string): string {
-        const categoryImageDir = `${this.imageDir}/${category.replace(/[^a-zA-Z]/g, "")}`;
+    private randomInt(max: number, ...parts: (string | number)[]) {
+        return Math.floor(this.random(...parts) * max);
+    }
+
+    // Cached images are reused, so repeated runs don't pay for the same image again.
+    private async createCachedImage(lookup: ImageCacheLookup, taskName: string) {
+        const cachedImage = this.provider.skipImageCache ? null : this.imageCache.get(lookup);
+
+        if (cachedImage) {
+            console.log(`${taskName} used from image cache.`);
+
+            return cachedImage;
+        }
+
+        let imageBase64: string = "";
 
-        if (!fs.existsSync(categoryImageDir)) {
-            try {
-                fs.mkdirSync(categoryImageDir);
-            } catch (err) {
-                console.error(err);
+        try {
+            imageBase64 =
+                (await this.taskRunner.retry(
+                    () => this.createImage(lookup.prompt, lookup.size),
+                    taskName,
+                )) || "";
+        } catch (e) {
+            if (e instanceof TaskAbortedError) {
+                throw e;
             }
+
+            this.taskRunner.recordFailure(taskName, e);
         }
 
-        return categoryImageDir;
+        if (!imageBase64.length) {
+            return imageBase64;
+        }
+
+        this.imageCache.put(lookup, imageBase64);
+
+        console.log(`${taskName} generated successfully.`);
+
+        return imageBase64;
     }
 }
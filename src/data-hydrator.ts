@@ -1,19 +1,62 @@
 import crypto from "node:crypto";
-import axios, { type AxiosInstance } from "axios";
+import axios, { type AxiosInstance, type AxiosRequestConfig } from "axios";
+import type { Run, RunEntityName, RunStore } from "./run-store.js";
+import { ImageProcessor } from "./image-processor.js";
+import type { ExpectedProduct } from "./store-api-verifier.js";
+import { TaskRunner } from "./task-runner.js";
+
+// Tokens are renewed shortly before they expire, so long runs don't send stale tokens.
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+// Generated texts shown as html on a page may only use these tags, without any attributes.
+const ALLOWED_HTML_TAGS = ["p", "br", "strong", "em", "b", "i", "u", "ul", "ol", "li"];
+
+export interface SyncRejection {
+    entity: string;
+    id: string;
+    name: string;
+    errors: string[];
+}
+
+export interface SyncReport {
+    written: Record<string, number>;
+    rejected: SyncRejection[];
+    // Errors of batches that can't be assigned to a single entity.
+    errors: string[];
+}
 
 export class DataHydrator {
     public apiClient: AxiosInstance;
     public envPath: string | undefined;
     public authenticationType: string | undefined;
+    public run: Run | null = null;
+    public readonly taskRunner: TaskRunner;
+    public readonly syncBatchSize: number;
+    public readonly imageProcessor: ImageProcessor;
+    public readonly syncReport: SyncReport = { written: {}, rejected: [], errors: [] };
+    // Written products as the storefront should show them, for a verification afterwards.
+    public readonly expectedProducts: ExpectedProduct[] = [];
 
     private userName: string | undefined;
     private password: string | undefined;
     private apiClientId: string | undefined;
     private apiClientSecret: string | undefined;
     private apiClientAccessToken: string | null | undefined;
+    private apiClientRefreshToken: string | null | undefined;
+    private apiClientAccessTokenExpiresAt: number | null = null;
+    private pendingTokenRequest: Promise<boolean> | null = null;
+    private runStore: RunStore | null = null;
+    private languageIds: Record<string, string> = {};
 
-    constructor() {
+    constructor(
+        taskRunner = new TaskRunner(),
+        syncBatchSize = 100,
+        imageProcessor = new ImageProcessor(),
+    ) {
         this.apiClient = axios.create();
+        this.taskRunner = taskRunner;
+        this.syncBatchSize = Math.max(1, syncBatchSize);
+        this.imageProcessor = imageProcessor;
     }
 
     createUUID() {
@@ -24,51 +67,47 @@ export class DataHydrator {
         return s.charAt(0).toUpperCase() + s.slice(1);
     }
 
+    escapeHtml(s: string) {
+        return s
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+            .replace(/'/g, "&#39;");
+    }
+
+    // Everything is escaped, only the allowed tags are restored without their attributes.
+    sanitizeHtml(html: string) {
+        const tags = new RegExp(
+            `&lt;(/?)(${ALLOWED_HTML_TAGS.join("|")})\\b(?:(?!&gt;).)*&gt;`,
+            "gi",
+        );
+
+        return this.escapeHtml(html).replace(
+            tags,
+            (_, slash, tag) => `<${slash}${tag.toLowerCase()}>`,
+        );
+    }
+
     async authenticateWithClientCredentials(
         envPath: string,
         clientId: string | undefined,
         clientSecret: string | undefined,
     ) {
-        let authResponse;
-
         this.envPath = envPath || "http://localhost:8000";
         this.apiClientId = clientId;
         this.apiClientSecret = clientSecret;
         this.authenticationType = "client";
 
-        this.apiClient = axios.create({
-            baseURL: `${this.envPath}/api/`,
-        });
+        this.apiClient = this.createApiClient();
 
-        if (this.apiClientId && this.apiClientSecret) {
-            authResponse = await this.apiClient.post("oauth/token", {
-                grant_type: "client_credentials",
-                client_id: this.apiClientId,
-                client_secret: this.apiClientSecret,
-                scope: "write",
-            });
-        } else {
-            // Fallback for dev mode to standard admin user.
-            authResponse = await this.apiClient.post("oauth/token", {
-                client_id: "administration",
-                grant_type: "password",
-                username: "admin",
-                password: "shopware",
-                scope: "write",
-            });
-        }
+        const authSuccess = await this.requestAccessToken();
 
-        if (!authResponse.data["access_token"]) {
+        if (!authSuccess) {
             console.error("Authentication failed.");
-            console.log(authResponse);
-
-            this.apiClientAccessToken = null;
-            return false;
         }
 
-        this.apiClientAccessToken = authResponse.data["access_token"];
-        this.apiClient.defaults.headers.common["Authorization"] =
-            "Bearer " + this.apiClientAccessToken;
+        return authSuccess;
     }
 
     async authenticateWithUserCredentials(envPath: string, userName: string, password: string) {
@@ -82,48 +121,387 @@ export class DataHydrator {
         this.password = password;
         this.authenticationType = "user";
 
-        this.apiClient = axios.create({
+        this.apiClient = this.createApiClient();
+
+        return await this.requestAccessToken();
+    }
+
+    private createApiClient() {
+        const apiClient = axios.create({
             baseURL: `${this.envPath}/api/`,
         });
 
-        const authResponse = await this.apiClient.post("oauth/token", {
+        apiClient.interceptors.request.use(async (config) => {
+            if (this.isTokenRequest(config.url) || !this.apiClientAccessToken) {
+                return config;
+            }
+
+            if (
+                this.apiClientAccessTokenExpiresAt &&
+                Date.now() >= this.apiClientAccessTokenExpiresAt - TOKEN_REFRESH_MARGIN_MS
+            ) {
+                await this.refreshAccessToken();
+            }
+
+            config.headers.set("Authorization", `Bearer ${this.apiClientAccessToken}`);
+
+            return config;
+        });
+
+        apiClient.interceptors.response.use(undefined, async (error) => {
+            const config = error.config;
+
+            if (
+                error.response?.status !== 401 ||
+                !config ||
+                config._tokenRetried ||
+                this.isTokenRequest(config.url)
+            ) {
+                throw error;
+            }
+
+            config._tokenRetried = true;
+
+            if (!(await this.refreshAccessToken())) {
+                throw error;
+            }
+
+            return await apiClient.request(config);
+        });
+
+        return apiClient;
+    }
+
+    private isTokenRequest(url: string | undefined) {
+        return !!url && url.startsWith("oauth/token");
+    }
+
+    private getTokenRequestPayload() {
+        if (this.authenticationType === "client" && this.apiClientId && this.apiClientSecret) {
+            return {
+                grant_type: "client_credentials",
+                client_id: this.apiClientId,
+                client_secret: this.apiClientSecret,
+                scope: "write",
+            };
+        }
+
+        if (this.authenticationType === "user") {
+            return {
+                client_id: "administration",
+                grant_type: "password",
+                username: this.userName,
+                password: this.password,
+                scope: "write",
+            };
+        }
+
+        // Fallback for dev mode to standard admin user.
+        return {
             client_id: "administration",
             grant_type: "password",
-            username: userName,
-            password: password,
+            username: "admin",
+            password: "shopware",
             scope: "write",
-        });
+        };
+    }
+
+    private async requestAccessToken(useRefreshToken = false): Promise<boolean> {
+        const payload =
+            useRefreshToken && this.apiClientRefreshToken
+                ? {
+                      client_id: "administration",
+                      grant_type: "refresh_token",
+                      refresh_token: this.apiClientRefreshToken,
+                  }
+                : this.getTokenRequestPayload();
+
+        const authResponse = await this.apiClient.post("oauth/token", payload);
 
         if (!authResponse.data["access_token"]) {
+            console.log(authResponse);
+
             this.apiClientAccessToken = null;
-            return false;
+            this.apiClientRefreshToken = null;
+            this.apiClientAccessTokenExpiresAt = null;
+
+            // Without a usable refresh token, the stored credentials are used to log in again.
+            return useRefreshToken ? await this.requestAccessToken() : false;
         }
 
         this.apiClientAccessToken = authResponse.data["access_token"];
+        // Refresh responses don't always contain a new refresh token, the old one stays valid then.
+        this.apiClientRefreshToken =
+            authResponse.data["refresh_token"] ||
+            (useRefreshToken ? this.apiClientRefreshToken : null);
+        this.apiClientAccessTokenExpiresAt = authResponse.data["expires_in"]
+            ? Date.now() + authResponse.data["expires_in"] * 1000
+            : null;
         this.apiClient.defaults.headers.common["Authorization"] =
             "Bearer " + this.apiClientAccessToken;
+
         return true;
     }
 
-    async getCurrencyId(currency = "EUR") {
-        const currencyResponse = await this.apiClient.post("search/currency", {
+    async refreshAccessToken() {
+        // Parallel requests share a single token request instead of each logging in again.
+        if (!this.pendingTokenRequest) {
+            this.pendingTokenRequest = this.requestAccessToken(true)
+                .catch(async (e) => {
+                    if (!this.apiClientRefreshToken) {
+                        throw e;
+                    }
+
+                    // An expired refresh token requires a new login with the stored credentials.
+                    return await this.requestAccessToken();
+                })
+                .catch((e) => {
+                    console.error("Refreshing the access token failed.", e);
+                    return false;
+                })
+                .finally(() => {
+                    this.pendingTokenRequest = null;
+                });
+        }
+
+        return await this.pendingTokenRequest;
+    }
+
+    async startRun(runStore: RunStore, category: string) {
+        this.runStore = runStore;
+        this.run = runStore.create(this.envPath || "http://localhost:8000", category);
+
+        const tagId = this.createUUID();
+
+        await this.post("_action/sync", {
+            createRunTag: {
+                entity: "tag",
+                action: "upsert",
+                payload: [{ id: tagId, name: `ai-run-${this.run.id}` }],
+            },
+        });
+
+        this.run.tagId = tagId;
+        this.recordRunEntities("tag", [tagId]);
+
+        console.log(`Started run ${this.run.id}.`);
+
+        return this.run;
+    }
+
+    private recordRunEntities(entity: RunEntityName, ids: string[]) {
+        if (this.run && this.runStore && ids.length) {
+            this.runStore.record(this.run, entity, ids);
+        }
+    }
+
+    private getRunTags() {
+        return this.run?.tagId ? [{ id: this.run.tagId }] : undefined;
+    }
+
+    // Requests are retried on rate limits and server errors. Creating entities without an id
+    // isn't idempotent, so those requests use the API client directly.
+    private async post(url: string, data?: any, config?: AxiosRequestConfig) {
+        return await this.taskRunner.retry(() => this.apiClient.post(url, data, config), url);
+    }
+
+    // Writes the entities in batches. Shopware rolls back a whole batch if one entity is invalid,
+    // so rejected entities are removed and the rest of the batch is written again.
+    private async syncEntities(
+        entity: string,
+        payload: Record<string, any>[],
+        getName: (entity: Record<string, any>) => string,
+    ) {
+        const operationKey = `write-${entity}`;
+        const written: Record<string, any>[] = [];
+
+        if (!payload.length) {
+            return written;
+        }
+
+        for (let offset = 0; offset < payload.length; offset += this.syncBatchSize) {
+            let batch = payload.slice(offset, offset + this.syncBatchSize);
+
+            while (batch.length) {
+                try {
+                    await this.post("_action/sync", {
+                        [operationKey]: {
+                            entity: entity,
+                            action: "upsert",
+                            payload: batch,
+                        },
+                    });
+
+                    written.push(...batch);
+                    break;
+                } catch (e) {
+                    const batchErrors = this.getSyncErrors(e, entity, operationKey, batch.length);
+
+                    if (!batchErrors) {
+                        throw e;
+                    }
+
+                    batch = batch.filter((batchEntity, index) => {
+                        const errors = batchErrors.get(index);
+
+                        if (errors) {
+                            this.rejectEntity(entity, batchEntity, getName(batchEntity), errors);
+                        }
+
+                        return !errors;
+                    });
+                }
+            }
+        }
+
+        this.syncReport.written[entity] = (this.syncReport.written[entity] ?? 0) + written.length;
+
+        console.log(`${written.length} of ${payload.length} ${entity} entities written.`);
+
+        return written;
+    }
+
+    // Maps the errors of a failed sync request to the indexes of the entities in the batch.
+    private getSyncErrors(error: any, entity: string, operationKey: string, batchSize: number) {
+        const errors = error?.response?.data?.errors;
+
+        if (error?.response?.status !== 400 || !Array.isArray(errors)) {
+            return null;
+        }
+
+        const batchErrors = new Map<number, string[]>();
+        const unassignedErrors: string[] = [];
+
+        errors.forEach((syncError: Record<string, any>) => {
+            const message =
+                syncError.detail || syncError.title || syncError.code || "Unknown error";
+            const segments = String(syncError.source?.pointer ?? "")
+                .split("/")
+                .filter((segment) => segment.length > 0);
+
+            if (segments[0] === operationKey) {
+                segments.shift();
+            }
+
+            const index = parseInt(segments[0] ?? "", 10);
+
+            if (isNaN(index) || index < 0 || index >= batchSize) {
+                unassignedErrors.push(message);
+                return;
+            }
+
+            const field = segments.slice(1).join("/");
+
+            batchErrors.set(index, [
+                ...(batchErrors.get(index) ?? []),
+                field ? `${field}: ${message}` : message,
+            ]);
+        });
+
+        // Errors without an entity reject the whole batch, so the sync can't loop forever. If other
+        // errors could be assigned, they're reported separately instead of being lost.
+        if (!batchErrors.size) {
+            for (let index = 0; index < batchSize; index++) {
+                batchErrors.set(index, unassignedErrors);
+            }
+        } else if (unassignedErrors.length) {
+            console.error(`A batch of ${entity} entities failed: ${unassignedErrors.join(", ")}`);
+
+            this.syncReport.errors.push(
+                ...unassignedErrors.map((message) => `${entity}: ${message}`),
+            );
+        }
+
+        return batchErrors;
+    }
+
+    private rejectEntity(
+        entity: string,
+        entityData: Record<string, any>,
+        name: string,
+        errors: string[],
+    ) {
+        console.error(`${entity} ${name} was rejected: ${errors.join(", ")}`);
+
+        this.syncReport.rejected.push({
+            entity: entity,
+            id: entityData.id,
+            name: name,
+            errors: errors,
+        });
+    }
+
+    async getCurrencyId(isoCode = "EUR") {
+        const currencyResponse = await this.post("search/currency", {
             limit: 1,
-            filter: [{ type: "equals", field: "isoCode", value: currency }],
+            filter: [{ type: "equals", field: "isoCode", value: isoCode }],
         });
 
-        return currencyResponse.data.data[0].id;
+        const currency = currencyResponse.data.data[0];
+
+        if (!currency) {
+            throw new Error(`No currency with the ISO code ${isoCode} found.`);
+        }
+
+        return currency.id;
     }
 
-    async getStandardTaxId() {
-        const taxResponse = await this.apiClient.post("search/tax", {
+    async getStandardTax() {
+        const taxResponse = await this.post("search/tax", {
             limit: 1,
         });
 
-        return taxResponse.data.data[0].id;
+        const tax = taxResponse.data.data[0];
+
+        if (!tax) {
+            throw new Error("No tax rate found.");
+        }
+
+        return tax;
+    }
+
+    async getSalutationIds() {
+        const salutationResponse = await this.post("search/salutation", {});
+
+        return Object.fromEntries(
+            salutationResponse.data.data.map((salutation: Record<string, any>) => [
+                salutation.salutationKey,
+                salutation.id,
+            ]),
+        );
+    }
+
+    async getStateIds(stateMachineName: string) {
+        const stateResponse = await this.post("search/state-machine-state", {
+            filter: [
+                {
+                    type: "equals",
+                    field: "stateMachine.technicalName",
+                    value: stateMachineName,
+                },
+            ],
+        });
+
+        return Object.fromEntries(
+            stateResponse.data.data.map((state: Record<string, any>) => [
+                state.technicalName,
+                state.id,
+            ]),
+        );
+    }
+
+    async getSalesChannelCountry(salesChannelName: string = "Storefront") {
+        const salesChannel = await this.getStandardSalesChannel(salesChannelName);
+
+        const countryResponse = await this.post("search/country", {
+            ids: [salesChannel.countryId],
+        });
+
+        return countryResponse.data.data[0];
     }
 
     async getStandardSalesChannel(salesChannelName: string = "Storefront") {
-        const salesChannelResponse = await this.apiClient.post("search/sales-channel", {
+        const salesChannelResponse = await this.post("search/sales-channel", {
             limit: 1,
             filter: [
                 {
@@ -132,15 +510,149 @@ export class DataHydrator {
                     value: salesChannelName,
                 },
             ],
+            associations: { domains: {} },
         });
 
-        return salesChannelResponse.data.data[0];
+        const salesChannel = salesChannelResponse.data.data[0];
+
+        if (!salesChannel) {
+            throw new Error(`No sales channel named "${salesChannelName}" found.`);
+        }
+
+        return salesChannel;
     }
 
-    async createProductCategory(category: string, salesChannel: Record<string, any>) {
-        const categoryName = this.capitalizeString(category.trim());
+    async getExistingPropertyGroups(limit = 50) {
+        const propertyGroupResponse = await this.post("search/property-group", {
+            limit: limit,
+            associations: { options: {} },
+        });
+
+        return propertyGroupResponse.data.data
+            .filter((group: Record<string, any>) => group.translated?.name ?? group.name)
+            .map((group: Record<string, any>) => {
+                return {
+                    id: group.id,
+                    name: group.translated?.name ?? group.name,
+                    description: group.translated?.description ?? group.description,
+                    displayType: group.displayType,
+                    existing: true,
+                    options: (group.options || []).map((option: Record<string, any>) => {
+                        return {
+                            id: option.id,
+                            name: option.translated?.name ?? option.name,
+                            colorHexCode: option.colorHexCode,
+                            existing: true,
+                        };
+                    }),
+                };
+            }) as Record<string, any>[];
+    }
+
+    async getExistingProductNames(
+        category: string,
+        salesChannelName: string = "Storefront",
+        limit = 500,
+    ) {
+        const salesChannel = await this.getStandardSalesChannel(salesChannelName);
+
+        const categoryResponse = await this.post("search/category", {
+            limit: 1,
+            filter: [
+                { type: "equals", field: "name", value: this.capitalizeString(category.trim()) },
+                { type: "equals", field: "parentId", value: salesChannel.navigationCategoryId },
+            ],
+        });
+
+        const categoryId = categoryResponse.data.data[0]?.id;
+
+        if (!categoryId) {
+            return [];
+        }
+
+        // categoriesRo also contains the parent categories, so products of subcategories are found.
+        const productResponse = await this.post("search/product", {
+            limit: limit,
+            includes: { product: ["name", "translated"] },
+            filter: [
+                { type: "equals", field: "categoriesRo.id", value: categoryId },
+                { type: "equals", field: "parentId", value: null },
+            ],
+        });
+
+        return productResponse.data.data
+            .map((product: Record<string, any>) => product.translated?.name ?? product.name)
+            .filter((name: string | null) => !!name) as string[];
+    }
+
+    async getLanguageIds(locales: string[]) {
+        const missingLocales = locales.filter((locale) => !this.languageIds[locale]);
+
+        if (missingLocales.length) {
+            const languageResponse = await this.post("search/language", {
+                associations: { locale: {} },
+                filter: [{ type: "equalsAny", field: "locale.code", value: missingLocales }],
+            });
+
+            languageResponse.data.data.forEach((language: Record<string, any>) => {
+                this.languageIds[language.locale.code] = language.id;
+            });
+
+            missingLocales
+                .filter((locale) => !this.languageIds[locale])
+                .forEach((locale) => {
+                    console.warn(`No language found for locale ${locale}, skipping translations.`);
+                });
+        }
+
+        return this.languageIds;
+    }
+
+    // Categories of a category tree contain their subcategories as children.
+    private collectLocales(entities: (Record<string, any> | undefined)[]): string[] {
+        return [
+            ...new Set(
+                entities.flatMap((entity) => [
+                    ...Object.keys(entity?.translations || {}),
+                    ...this.collectLocales(entity?.children || []),
+                ]),
+            ),
+        ];
+    }
+
+    private createTranslationsPayload(
+        translations: Record<string, Record<string, string>> | undefined,
+    ) {
+        const payload = Object.entries(translations || {})
+            .filter(([locale]) => this.languageIds[locale])
+            .map(([locale, fields]) => {
+                return {
+                    languageId: this.languageIds[locale],
+                    ...fields,
+                };
+            });
+
+        return payload.length ? payload : undefined;
+    }
 
-        const categorySearchResponse = await this.apiClient.post("search/category", {
+    async createProductCategory(
+        category: string,
+        salesChannel: Record<string, any>,
+        translations: Record<string, Record<string, string>> = {},
+    ) {
+        return await this.findOrCreateCategory(
+            this.capitalizeString(category.trim()),
+            salesChannel.navigationCategoryId,
+            { translations: this.createTranslationsPayload(translations) },
+        );
+    }
+
+    async findOrCreateCategory(
+        categoryName: string,
+        parentId: string,
+        categoryData: Record<string, any> = {},
+    ) {
+        const categorySearchResponse = await this.post("search/category", {
             limit: 1,
             filter: [
                 {
@@ -151,7 +663,7 @@ export class DataHydrator {
                 {
                     type: "equals",
                     field: "parentId",
-                    value: salesChannel.navigationCategoryId,
+                    value: parentId,
                 },
             ],
         });
@@ -162,74 +674,204 @@ export class DataHydrator {
 
         const categoryResponse = await this.apiClient.post("category?_response", {
             name: categoryName,
-            parentId: salesChannel.navigationCategoryId,
+            parentId: parentId,
             displayNestedProducts: true,
             type: "page",
             productAssignmentType: "product",
             visible: true,
             active: true,
+            tags: this.getRunTags(),
+            ...categoryData,
         });
 
+        this.recordRunEntities("category", [categoryResponse.data.data.id]);
+
         return categoryResponse.data.data;
     }
 
-    async hydrateEnvWithPropertyGroups(propertyGroups: Record<string, any>[]) {
-        if (!this.apiClientAccessToken) {
-            console.error("Client is not authenticated.");
-            return [];
+    async hydrateEnvWithCategoryTree(
+        categoryTree: Record<string, any>[],
+        parentId: string,
+        parentPath: string[] = [],
+    ) {
+        const leafCategoryIds: Record<string, string> = {};
+
+        // Categories are created one after another, so siblings keep the generated order.
+        for (const category of categoryTree) {
+            const categoryPath = [...parentPath, category.name];
+
+            const createdCategory = await this.findOrCreateCategory(category.name, parentId, {
+                description: category.description,
+                translations: this.createTranslationsPayload(category.translations),
+            });
+
+            if (category.children && category.children.length) {
+                Object.assign(
+                    leafCategoryIds,
+                    await this.hydrateEnvWithCategoryTree(
+                        category.children,
+                        createdCategory.id,
+                        categoryPath,
+                    ),
+                );
+            } else {
+                leafCategoryIds[categoryPath.join(" > ")] = createdCategory.id;
+            }
         }
 
-        const propertyGroupsPayload = propertyGroups.map((group) => {
+        return leafCategoryIds;
+    }
+
+    preparePropertyGroups(propertyGroups: Record<string, any>[]) {
+        return propertyGroups.map((group) => {
             return {
-                id: this.createUUID(),
+                id: group.id || this.createUUID(),
                 name: group.name,
                 description: group.description,
                 displayType: group.displayType,
-                options: group.options.map((option: Record<string, any>[]) => {
+                translations: group.translations,
+                existing: group.existing,
+                options: group.options.map((option: Record<string, any>) => {
                     return {
-                        id: this.createUUID(),
                         ...option,
+                        id: option.id || this.createUUID(),
                     };
                 }),
             };
         });
-
-        const propertyGroupResponse = await this.apiClient.post("_action/sync", {
-            hydratePropertyGroups: {
-                entity: "property_group",
-                action: "upsert",
-                payload: propertyGroupsPayload,
-            },
-        });
-
-        console.log("Property Group Response", propertyGroupResponse.status);
-
-        return propertyGroupsPayload;
     }
 
-    async hydrateEnvWithProducts(
-        products: Record<string, any>,
-        category: string,
-        salesChannelName: string = "Storefront",
-    ) {
+    async hydrateEnvWithPropertyGroups(propertyGroups: Record<string, any>[]) {
         if (!this.apiClientAccessToken) {
             console.error("Client is not authenticated.");
-            return false;
+            return [];
         }
 
-        const taxId = await this.getStandardTaxId();
-        const salesChannel = await this.getStandardSalesChannel(salesChannelName);
+        const propertyGroupsPayload = this.preparePropertyGroups(propertyGroups);
 
-        let currencyId = salesChannel.currencyId;
+        await this.getLanguageIds(
+            this.collectLocales([
+                ...propertyGroupsPayload,
+                ...propertyGroupsPayload.flatMap((group) => group.options),
+            ]),
+        );
 
-        if (!currencyId) {
+        // Existing groups only get their new options, so their own data stays untouched.
+        const syncPayload = propertyGroupsPayload
+            .filter(
+                (group) =>
+                    !group.existing ||
+                    group.options.some((option: Record<string, any>) => !option.existing),
+            )
+            .map((group) => {
+                const options = group.options
+                    .filter((option: Record<string, any>) => !option.existing)
+                    .map(({ existing, ...option }: Record<string, any>) => {
+                        return {
+                            ...option,
+                            translations: this.createTranslationsPayload(option.translations),
+                        };
+                    });
+
+                if (group.existing) {
+                    return { id: group.id, options: options };
+                }
+
+                const { existing, ...groupData } = group;
+
+                return {
+                    ...groupData,
+                    translations: this.createTranslationsPayload(group.translations),
+                    options: options,
+                };
+            });
+
+        if (syncPayload.length) {
+            const propertyGroupResponse = await this.post("_action/sync", {
+                hydratePropertyGroups: {
+                    entity: "property_group",
+                    action: "upsert",
+                    payload: syncPayload,
+                },
+            });
+
+            console.log("Property Group Response", propertyGroupResponse.status);
+        }
+
+        this.recordRunEntities(
+            "property_group",
+            propertyGroupsPayload.filter((group) => !group.existing).map((group) => group.id),
+        );
+        this.recordRunEntities(
+            "property_group_option",
+            propertyGroupsPayload
+                .filter((group) => group.existing)
+                .flatMap((group) => group.options)
+                .filter((option: Record<string, any>) => !option.existing)
+                .map((option: Record<string, any>) => option.id),
+        );
+
+        return propertyGroupsPayload;
+    }
+
+    async hydrateEnvWithProducts(
+        products: Record<string, any>[],
+        category: string,
+        salesChannelName: string = "Storefront",
+        categoryTranslations: Record<string, Record<string, string>> = {},
+        categoryTree: Record<string, any>[] | null = null,
+        manufacturer: Record<string, any> | null = null,
+        landingPage: Record<string, any> | null = null,
+    ) {
+        if (!this.apiClientAccessToken) {
+            console.error("Client is not authenticated.");
+            return false;
+        }
+
+        const tax = await this.getStandardTax();
+        const salesChannel = await this.getStandardSalesChannel(salesChannelName);
+
+        let currencyId = salesChannel.currencyId;
+
+        if (!currencyId) {
             currencyId = await this.getCurrencyId();
         }
 
-        const productCategory = await this.createProductCategory(category, salesChannel);
+        await this.getLanguageIds(
+            this.collectLocales([
+                { translations: categoryTranslations },
+                ...(categoryTree ?? []),
+                manufacturer ?? undefined,
+                landingPage ?? undefined,
+                ...products,
+                ...products.flatMap((p: Record<string, any>) => p.productReviews || []),
+            ]),
+        );
+
+        const productCategory = await this.createProductCategory(
+            category,
+            salesChannel,
+            categoryTranslations,
+        );
 
-        const mediaUploads: Record<string, any> = [];
-        const mediaPayload: Record<string, any> = [];
+        const leafCategoryIds = categoryTree
+            ? await this.hydrateEnvWithCategoryTree(categoryTree, productCategory.id)
+            : {};
+
+        const mediaUploads: Record<string, any>[] = [];
+        const mediaPayload: Record<string, any>[] = [];
+        const manufacturerPayload = manufacturer
+            ? [this.prepareManufacturer(manufacturer, mediaUploads, mediaPayload)]
+            : [];
+        const bannerMediaId = landingPage?.banner
+            ? this.prepareMedia(
+                  landingPage.banner,
+                  mediaUploads,
+                  mediaPayload,
+                  landingPage.headline,
+              )
+            : undefined;
+        const variantPayload: Record<string, any>[] = [];
         const productPayload = products.map((p: Record<string, any>) => {
             const UUID = this.createUUID();
 
@@ -239,15 +881,18 @@ export class DataHydrator {
                 name: p.name,
                 description: p.description,
                 stock: p.stock,
-                taxId: taxId,
-                price: [
-                    {
-                        currencyId: currencyId,
-                        gross: p.price,
-                        net: p.price,
-                        linked: true,
-                    },
-                ],
+                ean: p.ean,
+                manufacturerId: manufacturerPayload[0]?.id,
+                manufacturerNumber: p.manufacturerNumber,
+                weight: p.weight,
+                width: p.width,
+                height: p.height,
+                length: p.length,
+                metaTitle: p.metaTitle,
+                metaDescription: p.metaDescription,
+                keywords: p.keywords,
+                taxId: tax.id,
+                price: this.createPrice(currencyId, p.price, tax.taxRate, p.listPrice),
                 visibilities: [
                     {
                         productId: UUID,
@@ -260,15 +905,38 @@ export class DataHydrator {
                         id: salesChannel.navigationCategoryId,
                     },
                     {
-                        id: productCategory.id,
+                        id: leafCategoryIds[p.categoryPath] || productCategory.id,
                     },
                 ],
+                tags: this.getRunTags(),
+                translations: this.createTranslationsPayload(p.translations),
             };
 
             if (p.productReviews) {
-                product.productReviews = p.productReviews.map((review: Record<string, any>) => {
-                    review.salesChannelId = salesChannel.id;
-                    return review;
+                // Reviews aren't translatable, so each language gets its own copy of a review.
+                product.productReviews = p.productReviews.flatMap((review: Record<string, any>) => {
+                    const { translations, ...reviewData } = review;
+
+                    const translatedReviews = Object.entries(translations || {})
+                        .filter(([locale]) => this.languageIds[locale])
+                        .map(([locale, fields]) => {
+                            return {
+                                ...reviewData,
+                                ...(fields as Record<string, string>),
+                                id: this.createUUID(),
+                                languageId: this.languageIds[locale],
+                                salesChannelId: salesChannel.id,
+                            };
+                        });
+
+                    return [
+                        {
+                            ...reviewData,
+                            id: this.createUUID(),
+                            salesChannelId: salesChannel.id,
+                        },
+                        ...translatedReviews,
+                    ];
                 });
             }
 
@@ -280,63 +948,971 @@ export class DataHydrator {
                 });
             }
 
-            if (p.image) {
-                const mediaId = this.createUUID();
-                const productMediaId = this.createUUID();
+            // The cover comes first, followed by the gallery images in their generated order.
+            const images = [p.image, ...(p.gallery || [])].filter((image) => !!image);
 
-                mediaUploads.push({
-                    id: mediaId,
-                    image: p.image,
+            if (images.length) {
+                product.media = images.map((image: Record<string, any>, position: number) =>
+                    this.prepareProductMedia(image, mediaUploads, mediaPayload, p.name, position),
+                );
+                product.coverId = product.media[0].id;
+            }
+
+            if (p.variants && p.variants.length) {
+                const variantOptionIds = [
+                    ...new Set(
+                        p.variants.flatMap((variant: Record<string, any>) =>
+                            variant.options.map((option: Record<string, any>) => option.id),
+                        ),
+                    ),
+                ];
+
+                product.configuratorSettings = variantOptionIds.map((optionId) => {
+                    return {
+                        id: this.createUUID(),
+                        optionId: optionId,
+                    };
                 });
 
-                mediaPayload.push({
-                    id: mediaId,
-                    private: false,
+                product.variantListingConfig = {
+                    displayParent: true,
+                    configuratorGroupConfig: (p.variantGroups || []).map(
+                        (group: Record<string, any>) => {
+                            return {
+                                id: group.id,
+                                representation: group.displayType === "color" ? "color" : "box",
+                                expressionForListings: false,
+                            };
+                        },
+                    ),
+                };
+
+                p.variants.forEach((v: Record<string, any>, index: number) => {
+                    const variantId = this.createUUID();
+                    const gross = Math.max(0, p.price + (v.priceDelta || 0));
+                    const listGross = p.listPrice ? p.listPrice + (v.priceDelta || 0) : null;
+
+                    const variant: Record<string, any> = {
+                        id: variantId,
+                        parentId: UUID,
+                        productNumber: `AI-${UUID}.${index + 1}`,
+                        stock: v.stock,
+                        ean: v.ean,
+                        options: v.options.map((option: Record<string, any>) => {
+                            return {
+                                id: option.id,
+                            };
+                        }),
+                        price: this.createPrice(currencyId, gross, tax.taxRate, listGross),
+                        tags: this.getRunTags(),
+                    };
+
+                    if (v.image) {
+                        const variantMedia = this.prepareProductMedia(
+                            v.image,
+                            mediaUploads,
+                            mediaPayload,
+                            p.name,
+                        );
+
+                        variant.coverId = variantMedia.id;
+                        variant.media = [variantMedia];
+                    }
+
+                    variantPayload.push(variant);
                 });
+            }
+
+            return product;
+        });
+
+        const writtenMedia = await this.syncEntities("media", mediaPayload, (media) => media.id);
+        this.recordRunEntities(
+            "media",
+            writtenMedia.map((media) => media.id),
+        );
 
-                product.coverId = productMediaId;
-                product.media = [
+        const writtenManufacturers = await this.syncEntities(
+            "product_manufacturer",
+            manufacturerPayload,
+            (entity) => entity.name,
+        );
+        this.recordRunEntities(
+            "product_manufacturer",
+            writtenManufacturers.map((entity) => entity.id),
+        );
+
+        // Products are still written if their manufacturer was rejected, just without it.
+        if (manufacturerPayload.length && !writtenManufacturers.length) {
+            productPayload.forEach((product) => delete product.manufacturerId);
+        }
+
+        const writtenProducts = await this.syncEntities(
+            "product",
+            productPayload,
+            (product) => product.name,
+        );
+        const writtenProductIds = new Set(writtenProducts.map((product) => product.id));
+
+        // Variants are written after all parents, so their parent products already exist.
+        const writtenVariants = await this.syncEntities(
+            "product",
+            variantPayload.filter((variant) => {
+                if (!writtenProductIds.has(variant.parentId)) {
+                    this.rejectEntity("product", variant, variant.productNumber, [
+                        "The parent product was rejected.",
+                    ]);
+                }
+
+                return writtenProductIds.has(variant.parentId);
+            }),
+            (variant) => variant.productNumber,
+        );
+
+        this.recordRunEntities(
+            "product",
+            [...writtenProducts, ...writtenVariants].map((product) => product.id),
+        );
+        this.recordRunEntities(
+            "product_review",
+            writtenProducts.flatMap((product) =>
+                (product.productReviews || []).map((review: Record<string, any>) => review.id),
+            ),
+        );
+
+        await this.hydrateEnvWithCrossSellings(products, productPayload, writtenProducts);
+
+        const writtenLandingPage = landingPage
+            ? await this.hydrateEnvWithLandingPage(
+                  landingPage,
+                  category,
+                  productCategory.id,
+                  writtenMedia.some((media) => media.id === bannerMediaId)
+                      ? bannerMediaId
+                      : undefined,
+                  writtenProducts.map((product) => product.id),
+              )
+            : null;
+
+        // Only images of written products, manufacturers and landing pages are uploaded.
+        const usedMediaIds = new Set([
+            ...[...writtenProducts, ...writtenVariants].flatMap((product) =>
+                (product.media || []).map(
+                    (productMedia: Record<string, any>) => productMedia.media.id,
+                ),
+            ),
+            ...writtenManufacturers.map((entity) => entity.mediaId),
+            ...(writtenLandingPage ? [bannerMediaId] : []),
+        ]);
+
+        await this.taskRunner.run(
+            mediaUploads.filter((media) => usedMediaIds.has(media.id)),
+            async (media: Record<string, any>) => {
+                const image = await this.imageProcessor.process(media.image.data);
+
+                return await this.apiClient.post(
+                    `_action/media/${media.id}/upload?extension=${image.extension}&fileName=${media.image.name}-${media.id}`,
+                    image.data,
                     {
-                        id: productMediaId,
-                        media: {
-                            id: mediaId,
+                        headers: {
+                            "Content-Type": image.mimeType,
                         },
                     },
-                ];
+                );
+            },
+            (media) => `Upload of media ${media.image.name}`,
+        );
+
+        this.expectedProducts.push(
+            ...writtenProducts.map((product) => {
+                return {
+                    id: product.id,
+                    name: product.name,
+                    categoryId: product.categories[1].id,
+                    hasCover: !!product.coverId,
+                    // Copies of reviews in other languages aren't counted.
+                    reviewCount: (product.productReviews || []).filter(
+                        (review: Record<string, any>) => review.status && !review.languageId,
+                    ).length,
+                    propertyIds: (product.properties || []).map(
+                        (property: Record<string, any>) => property.id,
+                    ),
+                };
+            }),
+        );
+
+        return this.syncReport;
+    }
+
+    // Cross-selling can only reference products that were written, the others are left out.
+    private async hydrateEnvWithCrossSellings(
+        products: Record<string, any>[],
+        productPayload: Record<string, any>[],
+        writtenProducts: Record<string, any>[],
+    ) {
+        const writtenProductIds = new Map(
+            writtenProducts.map((product) => [product.name, product.id]),
+        );
+
+        const crossSellingPayload = products.flatMap((p, index) => {
+            const productId = productPayload[index]?.id;
+
+            if (!writtenProductIds.has(p.name) || !p.crossSellings) {
+                return [];
             }
 
-            return product;
+            return p.crossSellings.flatMap(
+                (crossSelling: Record<string, any>, position: number) => {
+                    const assignedIds = crossSelling.productNames
+                        .map((name: string) => writtenProductIds.get(name))
+                        .filter((id: string | undefined) => id && id !== productId);
+
+                    if (!assignedIds.length) {
+                        return [];
+                    }
+
+                    return [
+                        {
+                            id: this.createUUID(),
+                            productId: productId,
+                            name: crossSelling.name,
+                            type: "productList",
+                            active: true,
+                            position: position + 1,
+                            assignedProducts: assignedIds.map(
+                                (id: string, assignedPosition: number) => {
+                                    return {
+                                        id: this.createUUID(),
+                                        productId: id,
+                                        position: assignedPosition + 1,
+                                    };
+                                },
+                            ),
+                        },
+                    ];
+                },
+            );
         });
 
-        const productResponse = await this.apiClient.post("_action/sync", {
-            hydrateProducts: {
-                entity: "product",
-                action: "upsert",
-                payload: productPayload,
+        const writtenCrossSellings = await this.syncEntities(
+            "product_cross_selling",
+            crossSellingPayload,
+            (crossSelling) => crossSelling.name,
+        );
+
+        this.recordRunEntities(
+            "product_cross_selling",
+            writtenCrossSellings.map((crossSelling) => crossSelling.id),
+        );
+    }
+
+    // A Shopping Experiences page with the banner, the intro text and a slider of the written
+    // products. It replaces the default listing of the category.
+    private async hydrateEnvWithLandingPage(
+        landingPage: Record<string, any>,
+        category: string,
+        categoryId: string,
+        bannerMediaId: string | undefined,
+        productIds: string[],
+    ) {
+        const sections: Record<string, any>[] = [];
+
+        if (bannerMediaId) {
+            sections.push({
+                type: "default",
+                sizingMode: "full_width",
+                blocks: [
+                    {
+                        type: "image",
+                        sectionPosition: "main",
+                        slots: [
+                            this.createSlot(landingPage, "image", "image", () => ({
+                                media: { source: "static", value: bannerMediaId },
+                                displayMode: { source: "static", value: "cover" },
+                                minHeight: { source: "static", value: "400px" },
+                            })),
+                        ],
+                    },
+                ],
+            });
+        }
+
+        const blocks: Record<string, any>[] = [
+            {
+                type: "text-hero",
+                sectionPosition: "main",
+                slots: [
+                    this.createSlot(
+                        landingPage,
+                        "text",
+                        "content",
+                        (texts) => ({
+                            content: {
+                                source: "static",
+                                value: `<h2>${this.escapeHtml(texts.headline)}</h2>${this.sanitizeHtml(texts.introText)}`,
+                            },
+                        }),
+                        true,
+                    ),
+                ],
             },
-            hydrateMedia: {
-                entity: "media",
-                action: "upsert",
-                payload: mediaPayload,
+        ];
+
+        if (productIds.length) {
+            blocks.push({
+                type: "product-slider",
+                sectionPosition: "main",
+                slots: [
+                    this.createSlot(
+                        landingPage,
+                        "product-slider",
+                        "productSlider",
+                        (texts) => ({
+                            products: { source: "static", value: productIds },
+                            title: { source: "static", value: texts.sliderTitle },
+                            displayMode: { source: "static", value: "standard" },
+                            boxLayout: { source: "static", value: "standard" },
+                            navigationArrows: { source: "static", value: "outside" },
+                        }),
+                        true,
+                    ),
+                ],
+            });
+        }
+
+        sections.push({ type: "default", sizingMode: "boxed", blocks: blocks });
+
+        const pagePayload = {
+            id: this.createUUID(),
+            name: `${this.capitalizeString(category.trim())} landing page`,
+            type: "page",
+            sections: sections.map((section, position) => {
+                return {
+                    ...section,
+                    id: this.createUUID(),
+                    position: position,
+                    blocks: section.blocks.map(
+                        (block: Record<string, any>, blockPosition: number) => {
+                            return { ...block, id: this.createUUID(), position: blockPosition };
+                        },
+                    ),
+                };
+            }),
+            tags: this.getRunTags(),
+        };
+
+        const [writtenPage] = await this.syncEntities(
+            "cms_page",
+            [pagePayload],
+            (page) => page.name,
+        );
+
+        if (!writtenPage) {
+            return null;
+        }
+
+        this.recordRunEntities("cms_page", [writtenPage.id]);
+
+        await this.syncEntities("category", [{ id: categoryId, cmsPageId: writtenPage.id }], () =>
+            this.capitalizeString(category.trim()),
+        );
+
+        return writtenPage;
+    }
+
+    // The config of a slot is translatable, so translated texts get a config of their own.
+    private createSlot(
+        landingPage: Record<string, any>,
+        type: string,
+        slot: string,
+        createConfig: (texts: Record<string, any>) => Record<string, any>,
+        translatable = false,
+    ) {
+        const translations = Object.entries(translatable ? landingPage.translations || {} : {})
+            .filter(([locale]) => this.languageIds[locale])
+            .map(([locale, texts]) => {
+                return {
+                    languageId: this.languageIds[locale],
+                    config: createConfig({ ...landingPage, ...(texts as Record<string, string>) }),
+                };
+            });
+
+        return {
+            id: this.createUUID(),
+            type: type,
+            slot: slot,
+            config: createConfig(landingPage),
+            translations: translations.length ? translations : undefined,
+        };
+    }
+
+    private prepareProductMedia(
+        image: Record<string, any>,
+        mediaUploads: Record<string, any>[],
+        mediaPayload: Record<string, any>[],
+        productName: string,
+        position = 0,
+    ) {
+        return {
+            id: this.createUUID(),
+            position: position,
+            media: {
+                id: this.prepareMedia(image, mediaUploads, mediaPayload, productName),
             },
+        };
+    }
+
+    private prepareMedia(
+        image: Record<string, any>,
+        mediaUploads: Record<string, any>[],
+        mediaPayload: Record<string, any>[],
+        title: string,
+    ) {
+        const mediaId = this.createUUID();
+
+        mediaUploads.push({
+            id: mediaId,
+            image: image,
         });
 
-        console.log("Product Create Response", productResponse.status);
+        mediaPayload.push({
+            id: mediaId,
+            private: false,
+            alt: image.alt || title,
+            title: title,
+            tags: this.getRunTags(),
+        });
 
-        const mediaResponse = await Promise.all(
-            mediaUploads.map(async (media: Record<string, any>) => {
-                return await this.apiClient.post(
-                    `_action/media/${media.id}/upload?extension=png&fileName=${media.image.name}-${media.id}`,
-                    Buffer.from(media.image.data, "base64"),
+        return mediaId;
+    }
+
+    private prepareManufacturer(
+        manufacturer: Record<string, any>,
+        mediaUploads: Record<string, any>[],
+        mediaPayload: Record<string, any>[],
+    ) {
+        return {
+            id: this.createUUID(),
+            name: manufacturer.name,
+            description: manufacturer.description,
+            mediaId: manufacturer.logo
+                ? this.prepareMedia(
+                      manufacturer.logo,
+                      mediaUploads,
+                      mediaPayload,
+                      manufacturer.name,
+                  )
+                : undefined,
+            translations: this.createTranslationsPayload(manufacturer.translations),
+        };
+    }
+
+    // Shopware expects the net price as well, it's derived from the gross price with the tax rate.
+    private createPrice(
+        currencyId: string,
+        gross: number,
+        taxRate: number,
+        listGross: number | null = null,
+    ) {
+        const price: Record<string, any> = {
+            currencyId: currencyId,
+            gross: gross,
+            net: this.getNetPrice(gross, taxRate),
+            linked: true,
+        };
+
+        if (listGross && listGross > gross) {
+            price.listPrice = {
+                currencyId: currencyId,
+                gross: listGross,
+                net: this.getNetPrice(listGross, taxRate),
+                linked: true,
+            };
+        }
+
+        return [price];
+    }
+
+    private getNetPrice(gross: number, taxRate: number) {
+        return gross / (1 + (taxRate || 0) / 100);
+    }
+
+    async cleanRun(run: Run) {
+        if (!this.apiClientAccessToken) {
+            console.error("Client is not authenticated.");
+            return false;
+        }
+
+        // Reviews and product media are removed with their products, but are listed
+        // explicitly in case the products were already deleted by hand.
+        await this.deleteEntities([
+            ["order", run.entities.order],
+            ["customer", run.entities.customer],
+            ["promotion", run.entities.promotion],
+            ["rule", run.entities.rule],
+            ["product_review", run.entities.product_review],
+            ["product_cross_selling", run.entities.product_cross_selling],
+            ["cms_page", run.entities.cms_page],
+            ["product", run.entities.product],
+            ["product_manufacturer", run.entities.product_manufacturer],
+            ["media", run.entities.media],
+            ["property_group_option", run.entities.property_group_option],
+            ["property_group", run.entities.property_group],
+        ]);
+
+        // Categories are checked from the deepest level up, as parents become empty only
+        // after their generated subcategories were deleted.
+        for (const categoryId of [...(run.entities.category || [])].reverse()) {
+            if (await this.isCategoryEmpty(categoryId)) {
+                await this.deleteEntities([["category", [categoryId]]]);
+            } else {
+                console.log(`Category ${categoryId} still contains products and is kept.`);
+            }
+        }
+
+        await this.deleteEntities([["tag", run.entities.tag]]);
+
+        return true;
+    }
+
+    async deleteEntities(entities: [RunEntityName, string[] | undefined][]) {
+        const operations = Object.fromEntries(
+            entities
+                .filter(([, ids]) => ids && ids.length)
+                .map(([entity, ids]) => [
+                    `delete-${entity}`,
                     {
-                        headers: {
-                            "Content-Type": "image/png",
-                        },
+                        entity: entity,
+                        action: "delete",
+                        payload: (ids || []).map((id) => ({ id })),
                     },
-                );
+                ]),
+        );
+
+        if (!Object.keys(operations).length) {
+            return;
+        }
+
+        const deleteResponse = await this.post("_action/sync", operations);
+
+        console.log("Delete Response", deleteResponse.status);
+    }
+
+    async isCategoryEmpty(categoryId: string) {
+        const productSearchResponse = await this.post("search-ids/product", {
+            limit: 1,
+            filter: [{ type: "equals", field: "categories.id", value: categoryId }],
+        });
+
+        const childSearchResponse = await this.post("search-ids/category", {
+            limit: 1,
+            filter: [{ type: "equals", field: "parentId", value: categoryId }],
+        });
+
+        return productSearchResponse.data.total === 0 && childSearchResponse.data.total === 0;
+    }
+
+    // Promotions are available in the sales channel. Those scoped to the category only discount
+    // its products, which needs a rule matching the line items of the category.
+    async hydrateEnvWithPromotions(
+        promotions: Record<string, any>[],
+        category: string,
+        salesChannelName: string = "Storefront",
+    ) {
+        if (!this.apiClientAccessToken) {
+            console.error("Client is not authenticated.");
+            return [];
+        }
+
+        const salesChannel = await this.getStandardSalesChannel(salesChannelName);
+        const productCategory = await this.createProductCategory(category, salesChannel);
+        const categoryName = this.capitalizeString(category.trim());
+
+        const rulePayload = promotions.some((promotion) => promotion.scope === "category")
+            ? [
+                  {
+                      id: this.createUUID(),
+                      name: `Line items of ${categoryName}`,
+                      priority: 1,
+                      conditions: [
+                          {
+                              type: "orContainer",
+                              position: 0,
+                              children: [
+                                  {
+                                      type: "andContainer",
+                                      position: 0,
+                                      children: [
+                                          {
+                                              type: "cartLineItemInCategory",
+                                              position: 0,
+                                              value: {
+                                                  operator: "=",
+                                                  categoryIds: [productCategory.id],
+                                              },
+                                          },
+                                      ],
+                                  },
+                              ],
+                          },
+                      ],
+                  },
+              ]
+            : [];
+
+        const [writtenRule] = await this.syncEntities("rule", rulePayload, (rule) => rule.name);
+
+        if (writtenRule) {
+            this.recordRunEntities("rule", [writtenRule.id]);
+        }
+
+        const now = Date.now();
+        const promotionPayload = promotions.map((p) => {
+            return {
+                id: this.createUUID(),
+                name: p.name,
+                active: true,
+                validFrom: new Date(now).toISOString(),
+                validUntil: new Date(now + p.validDays * 24 * 60 * 60 * 1000).toISOString(),
+                exclusive: false,
+                useCodes: true,
+                useIndividualCodes: p.individualCodes,
+                code: p.individualCodes ? null : p.code,
+                individualCodePattern: p.individualCodes ? `${p.code}-%s%s%s%s%s` : null,
+                individualCodes: (p.codes || []).map((code: string) => {
+                    return {
+                        id: this.createUUID(),
+                        code: code,
+                    };
+                }),
+                salesChannels: [
+                    {
+                        id: this.createUUID(),
+                        salesChannelId: salesChannel.id,
+                        priority: 1,
+                    },
+                ],
+                discounts: [
+                    {
+                        id: this.createUUID(),
+                        scope: "cart",
+                        type: p.discountType,
+                        value: p.discountValue,
+                        considerAdvancedRules: p.scope === "category",
+                        discountRules:
+                            p.scope === "category" ? [{ id: rulePayload[0]?.id }] : undefined,
+                    },
+                ],
+            };
+        });
+
+        // A promotion of the category would discount the whole cart without its rule.
+        const writtenPromotions = await this.syncEntities(
+            "promotion",
+            promotionPayload.filter((promotion) => {
+                const scopedToCategory = promotion.discounts[0]?.considerAdvancedRules;
+
+                if (scopedToCategory && !writtenRule) {
+                    this.rejectEntity("promotion", promotion, promotion.name, [
+                        "The rule of the category was rejected.",
+                    ]);
+                }
+
+                return !scopedToCategory || !!writtenRule;
             }),
+            (promotion) => promotion.name,
+        );
+
+        this.recordRunEntities(
+            "promotion",
+            writtenPromotions.map((promotion) => promotion.id),
+        );
+
+        return writtenPromotions;
+    }
+
+    async hydrateEnvWithCustomers(
+        customers: Record<string, any>[],
+        salesChannelName: string = "Storefront",
+    ) {
+        if (!this.apiClientAccessToken) {
+            console.error("Client is not authenticated.");
+            return [];
+        }
+
+        const salesChannel = await this.getStandardSalesChannel(salesChannelName);
+        const salutationIds = await this.getSalutationIds();
+
+        const customerPayload = customers.map((c) => {
+            const UUID = this.createUUID();
+            const addressId = this.createUUID();
+            const salutationId = salutationIds[c.salutation] || salutationIds["not_specified"];
+
+            return {
+                id: UUID,
+                customerNumber: `AI-${UUID.slice(0, 12)}`,
+                salutationId: salutationId,
+                firstName: c.firstName,
+                lastName: c.lastName,
+                email: c.email,
+                password: this.createUUID(),
+                groupId: salesChannel.customerGroupId,
+                salesChannelId: salesChannel.id,
+                languageId: salesChannel.languageId,
+                defaultPaymentMethodId: salesChannel.paymentMethodId,
+                defaultBillingAddressId: addressId,
+                defaultShippingAddressId: addressId,
+                addresses: [
+                    {
+                        id: addressId,
+                        countryId: salesChannel.countryId,
+                        salutationId: salutationId,
+                        firstName: c.firstName,
+                        lastName: c.lastName,
+                        street: c.address.street,
+                        zipcode: c.address.zipcode,
+                        city: c.address.city,
+                    },
+                ],
+                tags: this.getRunTags(),
+            };
+        });
+
+        const writtenCustomers = await this.syncEntities(
+            "customer",
+            customerPayload,
+            (customer) => `${customer.firstName} ${customer.lastName}`,
+        );
+
+        this.recordRunEntities(
+            "customer",
+            writtenCustomers.map((customer) => customer.id),
+        );
+
+        return writtenCustomers;
+    }
+
+    async getOrderableProducts(limit = 100, runProductIds = this.run?.entities.product || []) {
+        // Orders use the products of the run, or existing products if it has none.
+        const productResponse = await this.post("search/product", {
+            limit: limit,
+            associations: { tax: {} },
+            filter: [
+                { type: "equals", field: "parentId", value: null },
+                { type: "equals", field: "active", value: true },
+                ...(runProductIds.length
+                    ? [{ type: "equalsAny", field: "id", value: runProductIds }]
+                    : []),
+            ],
+        });
+
+        return productResponse.data.data.filter(
+            (product: Record<string, any>) => product.price && product.price[0],
+        );
+    }
+
+    async hydrateEnvWithOrders(
+        orders: Record<string, any>[],
+        customers: Record<string, any>[],
+        products: Record<string, any>[],
+        salesChannelName: string = "Storefront",
+    ) {
+        if (!this.apiClientAccessToken) {
+            console.error("Client is not authenticated.");
+            return false;
+        }
+
+        const salesChannel = await this.getStandardSalesChannel(salesChannelName);
+        const orderStateIds = await this.getStateIds("order.state");
+        const transactionStateIds = await this.getStateIds("order_transaction.state");
+        const deliveryStateIds = await this.getStateIds("order_delivery.state");
+
+        let currencyId = salesChannel.currencyId;
+
+        if (!currencyId) {
+            currencyId = await this.getCurrencyId();
+        }
+
+        const rounding = { decimals: 2, interval: 0.01, roundForNet: true };
+
+        const orderPayload = orders.flatMap((o) => {
+            const customer = customers[o.customerIndex];
+
+            if (!customer) {
+                return [];
+            }
+
+            const address = customer.addresses[0];
+            const orderAddressId = this.createUUID();
+
+            const lineItems = o.lineItems.flatMap((item: Record<string, any>, index: number) => {
+                const product = products[item.productIndex];
+
+                if (!product) {
+                    return [];
+                }
+
+                const taxRate = product.tax?.taxRate ?? 0;
+                const unitPrice = product.price[0].gross;
+                const taxRules = [{ taxRate: taxRate, percentage: 100 }];
+
+                return [
+                    {
+                        id: this.createUUID(),
+                        identifier: product.id,
+                        productId: product.id,
+                        referencedId: product.id,
+                        type: "product",
+                        label: product.translated?.name || product.name,
+                        quantity: item.quantity,
+                        position: index + 1,
+                        good: true,
+                        removable: true,
+                        stackable: true,
+                        states: ["is-physical"],
+                        payload: { productNumber: product.productNumber },
+                        priceDefinition: {
+                            type: "quantity",
+                            price: unitPrice,
+                            quantity: item.quantity,
+                            taxRules: taxRules,
+                            isCalculated: true,
+                        },
+                        price: this.createCalculatedPrice(unitPrice, item.quantity, taxRate),
+                    },
+                ];
+            });
+
+            if (!lineItems.length) {
+                return [];
+            }
+
+            const totalPrice = this.roundPrice(
+                lineItems.reduce(
+                    (sum: number, item: Record<string, any>) => sum + item.price.totalPrice,
+                    0,
+                ),
+            );
+            const calculatedTaxes = this.sumCalculatedTaxes(
+                lineItems.flatMap((item: Record<string, any>) => item.price.calculatedTaxes),
+            );
+            const taxTotal = this.roundPrice(
+                calculatedTaxes.reduce((sum: number, tax: Record<string, any>) => sum + tax.tax, 0),
+            );
+            const orderDate = o.orderDate.toISOString();
+            const shippingCosts = this.createCalculatedPrice(0, 1, 0);
+
+            return [
+                {
+                    id: this.createUUID(),
+                    orderNumber: `AI-${this.createUUID().slice(0, 12)}`,
+                    salesChannelId: salesChannel.id,
+                    currencyId: currencyId,
+                    languageId: salesChannel.languageId,
+                    currencyFactor: 1,
+                    orderDateTime: orderDate,
+                    stateId: orderStateIds[o.orderState],
+                    billingAddressId: orderAddressId,
+                    itemRounding: rounding,
+                    totalRounding: rounding,
+                    price: {
+                        netPrice: this.roundPrice(totalPrice - taxTotal),
+                        totalPrice: totalPrice,
+                        positionPrice: totalPrice,
+                        rawTotal: totalPrice,
+                        taxStatus: "gross",
+                        calculatedTaxes: calculatedTaxes,
+                        taxRules: [],
+                    },
+                    shippingCosts: shippingCosts,
+                    orderCustomer: {
+                        customerId: customer.id,
+                        customerNumber: customer.customerNumber,
+                        salutationId: customer.salutationId,
+                        firstName: customer.firstName,
+                        lastName: customer.lastName,
+                        email: customer.email,
+                    },
+                    addresses: [
+                        {
+                            ...address,
+                            id: orderAddressId,
+                        },
+                    ],
+                    lineItems: lineItems,
+                    deliveries: [
+                        {
+                            id: this.createUUID(),
+                            shippingOrderAddressId: orderAddressId,
+                            shippingMethodId: salesChannel.shippingMethodId,
+                            stateId: deliveryStateIds[o.deliveryState],
+                            shippingDateEarliest: orderDate,
+                            shippingDateLatest: orderDate,
+                            shippingCosts: shippingCosts,
+                        },
+                    ],
+                    transactions: [
+                        {
+                            id: this.createUUID(),
+                            paymentMethodId: salesChannel.paymentMethodId,
+                            stateId: transactionStateIds[o.paymentState],
+                            amount: this.createCalculatedPrice(totalPrice, 1, 0),
+                        },
+                    ],
+                    tags: this.getRunTags(),
+                },
+            ];
+        });
+
+        if (!orderPayload.length) {
+            return false;
+        }
+
+        const writtenOrders = await this.syncEntities(
+            "order",
+            orderPayload,
+            (order) => order.orderNumber,
+        );
+
+        this.recordRunEntities(
+            "order",
+            writtenOrders.map((order) => order.id),
         );
 
-        return productResponse.status;
+        return this.syncReport;
+    }
+
+    private createCalculatedPrice(unitPrice: number, quantity: number, taxRate: number) {
+        const totalPrice = this.roundPrice(unitPrice * quantity);
+        const tax = this.roundPrice(totalPrice - totalPrice / (1 + taxRate / 100));
+
+        return {
+            unitPrice: unitPrice,
+            quantity: quantity,
+            totalPrice: totalPrice,
+            calculatedTaxes: taxRate ? [{ tax: tax, taxRate: taxRate, price: totalPrice }] : [],
+            taxRules: taxRate ? [{ taxRate: taxRate, percentage: 100 }] : [],
+        };
+    }
+
+    // The order lists one tax per tax rate, summed over its line items.
+    private sumCalculatedTaxes(calculatedTaxes: Record<string, any>[]) {
+        const taxes = new Map<number, { tax: number; taxRate: number; price: number }>();
+
+        calculatedTaxes.forEach((calculatedTax) => {
+            const sum = taxes.get(calculatedTax.taxRate);
+
+            taxes.set(calculatedTax.taxRate, {
+                tax: this.roundPrice((sum?.tax ?? 0) + calculatedTax.tax),
+                taxRate: calculatedTax.taxRate,
+                price: this.roundPrice((sum?.price ?? 0) + calculatedTax.price),
+            });
+        });
+
+        return [...taxes.values()];
+    }
+
+    private roundPrice(price: number) {
+        return Math.round(price * 100) / 100;
     }
 }
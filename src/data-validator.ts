@@ -0,0 +1,418 @@
+import { getEnvNumber } from "./env.js";
+
+export type ValidationAction = "repaired" | "regenerated" | "dropped";
+
+export interface ValidationIssue {
+    entity: string;
+    name: string;
+    message: string;
+    action: ValidationAction;
+}
+
+export interface ValidationSummary {
+    repaired: number;
+    regenerated: number;
+    dropped: number;
+    issues: ValidationIssue[];
+}
+
+export interface ValidationRules {
+    minPrice: number;
+    maxPrice: number;
+    minStock: number;
+    maxStock: number;
+    // Share of the requested description words a description needs at least.
+    minDescriptionRatio: number;
+}
+
+export const DEFAULT_VALIDATION_RULES: ValidationRules = {
+    minPrice: 0.5,
+    maxPrice: 10000,
+    minStock: 0,
+    maxStock: 1000,
+    minDescriptionRatio: 0.5,
+};
+
+// Shopware doesn't accept longer meta texts.
+const MAX_META_LENGTH = 255;
+
+// Promotions are valid for at most a year.
+const MAX_PROMOTION_DAYS = 365;
+
+const HEX_CODE_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Checks generated data against domain rules the schemas can't express. What can be fixed
+// deterministically is repaired in place, everything else is returned as errors, so the caller
+// can generate the entity again or drop it.
+export class DataValidator {
+    public readonly rules: ValidationRules;
+
+    private issues: ValidationIssue[] = [];
+
+    constructor(rules: ValidationRules = DEFAULT_VALIDATION_RULES) {
+        this.rules = rules;
+    }
+
+    static fromEnv(env: Record<string, string | undefined>) {
+        const getNumber = (name: string, defaultValue: number) =>
+            getEnvNumber(env, name, defaultValue, false);
+
+        return new DataValidator({
+            minPrice: getNumber("VALIDATION_MIN_PRICE", DEFAULT_VALIDATION_RULES.minPrice),
+            maxPrice: getNumber("VALIDATION_MAX_PRICE", DEFAULT_VALIDATION_RULES.maxPrice),
+            minStock: getNumber("VALIDATION_MIN_STOCK", DEFAULT_VALIDATION_RULES.minStock),
+            maxStock: getNumber("VALIDATION_MAX_STOCK", DEFAULT_VALIDATION_RULES.maxStock),
+            minDescriptionRatio: getNumber(
+                "VALIDATION_MIN_DESCRIPTION_RATIO",
+                DEFAULT_VALIDATION_RULES.minDescriptionRatio,
+            ),
+        });
+    }
+
+    validateProduct(product: Record<string, any>, descriptionWordCount = 200) {
+        const errors: string[] = [];
+
+        product.name = typeof product.name === "string" ? product.name.trim() : "";
+
+        if (!product.name.length) {
+            errors.push("name is empty");
+        }
+
+        const name = product.name || "Unnamed product";
+
+        if (!Number.isFinite(product.price)) {
+            errors.push(`price ${product.price} is not a number`);
+        } else {
+            product.price = this.repairNumber("product", name, "price", product.price, {
+                min: this.rules.minPrice,
+                max: this.rules.maxPrice,
+                decimals: 2,
+            });
+        }
+
+        if (!Number.isFinite(product.stock)) {
+            errors.push(`stock ${product.stock} is not a number`);
+        } else {
+            product.stock = this.repairNumber("product", name, "stock", product.stock, {
+                min: this.rules.minStock,
+                max: this.rules.maxStock,
+                decimals: 0,
+            });
+        }
+
+        this.repairListPrice(name, product);
+        this.repairDimensions(name, product);
+        this.repairMetaTexts(name, product);
+
+        const wordCount = this.countWords(product.description ?? "");
+        const minWordCount = Math.floor(descriptionWordCount * this.rules.minDescriptionRatio);
+
+        if (wordCount < minWordCount) {
+            errors.push(`description has ${wordCount} words instead of at least ${minWordCount}`);
+        }
+
+        if (Array.isArray(product.productReviews)) {
+            product.productReviews = this.repairReviews(name, product.productReviews);
+        }
+
+        return errors;
+    }
+
+    validateVariants(product: Record<string, any>) {
+        (product.variants || []).forEach((variant: Record<string, any>) => {
+            const name = `${product.name} ${variant.options
+                .map((option: Record<string, any>) => option.name)
+                .join(" ")}`;
+
+            variant.stock = this.repairNumber("variant", name, "stock", variant.stock, {
+                min: this.rules.minStock,
+                max: this.rules.maxStock,
+                decimals: 0,
+            });
+
+            // The price of a variant must stay within the price range as well.
+            variant.priceDelta = this.repairNumber(
+                "variant",
+                name,
+                "price difference",
+                variant.priceDelta,
+                {
+                    min: this.rules.minPrice - product.price,
+                    max: this.rules.maxPrice - product.price,
+                    decimals: 2,
+                },
+            );
+        });
+
+        return product;
+    }
+
+    validatePropertyGroups(propertyGroups: Record<string, any>[]) {
+        return propertyGroups.filter((group) => {
+            // Options of existing groups were already validated when they were created.
+            if (group.existing) {
+                return true;
+            }
+
+            const optionNames = new Set<string>();
+
+            group.options = group.options.filter((option: Record<string, any>) => {
+                const optionName = option.name?.trim().toLowerCase();
+
+                if (!optionName || optionNames.has(optionName)) {
+                    this.addIssue(
+                        "property option",
+                        group.name,
+                        `duplicate or empty option "${option.name}" removed`,
+                        "repaired",
+                    );
+                    return false;
+                }
+
+                optionNames.add(optionName);
+
+                if (option.colorHexCode !== undefined) {
+                    this.repairHexCode(group, option);
+                }
+
+                return true;
+            });
+
+            if (!group.options.length) {
+                this.addIssue("property group", group.name, "group has no options", "dropped");
+                return false;
+            }
+
+            return true;
+        });
+    }
+
+    validateCustomers(customers: Record<string, any>[]) {
+        return customers.filter((customer) => {
+            const name = `${customer.firstName} ${customer.lastName}`;
+
+            customer.email = `${customer.email ?? ""}`.trim().toLowerCase();
+
+            if (!EMAIL_PATTERN.test(customer.email)) {
+                this.addIssue("customer", name, `email "${customer.email}" is invalid`, "dropped");
+                return false;
+            }
+
+            return true;
+        });
+    }
+
+    validatePromotions(promotions: Record<string, any>[]) {
+        const codes = new Set<string>();
+
+        return promotions.filter((promotion) => {
+            promotion.name = typeof promotion.name === "string" ? promotion.name.trim() : "";
+
+            const name = promotion.name || "Unnamed promotion";
+            const code = `${promotion.code ?? ""}`.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+            if (!promotion.name.length || !code.length) {
+                this.addIssue("promotion", name, "name or code is empty", "dropped");
+                return false;
+            }
+
+            if (codes.has(code)) {
+                this.addIssue("promotion", name, `duplicate code ${code}`, "dropped");
+                return false;
+            }
+
+            if (code !== promotion.code) {
+                this.addIssue(
+                    "promotion",
+                    name,
+                    `code ${promotion.code} normalized to ${code}`,
+                    "repaired",
+                );
+                promotion.code = code;
+            }
+
+            codes.add(code);
+
+            // Absolute discounts are limited like prices, percentages can't exceed the price.
+            promotion.discountValue = this.repairNumber(
+                "promotion",
+                name,
+                "discount",
+                promotion.discountValue,
+                {
+                    min: promotion.discountType === "absolute" ? this.rules.minPrice : 1,
+                    max: promotion.discountType === "absolute" ? this.rules.maxPrice : 100,
+                    decimals: 2,
+                },
+            );
+            promotion.validDays = this.repairNumber(
+                "promotion",
+                name,
+                "validity",
+                promotion.validDays,
+                { min: 1, max: MAX_PROMOTION_DAYS, decimals: 0 },
+            );
+
+            return true;
+        });
+    }
+
+    recordRegeneration(entity: string, name: string, errors: string[]) {
+        this.addIssue(entity, name, errors.join(", "), "regenerated");
+    }
+
+    recordDrop(entity: string, name: string, errors: string[]) {
+        this.addIssue(entity, name, errors.join(", "), "dropped");
+    }
+
+    // With an earlier summary, only the issues since then are summarized.
+    getSummary(since: ValidationSummary | null = null): ValidationSummary {
+        const issues = this.issues.slice(since?.issues.length ?? 0);
+        const count = (action: ValidationAction) =>
+            issues.filter((issue) => issue.action === action).length;
+
+        return {
+            repaired: count("repaired"),
+            regenerated: count("regenerated"),
+            dropped: count("dropped"),
+            issues: issues,
+        };
+    }
+
+    normalizeHexCode(value: string) {
+        const match = HEX_CODE_PATTERN.exec(value.trim());
+
+        if (!match?.[1]) {
+            return null;
+        }
+
+        const digits =
+            match[1].length === 3
+                ? [...match[1]].map((digit) => `${digit}${digit}`).join("")
+                : match[1];
+
+        return `#${digits.toLowerCase()}`;
+    }
+
+    countWords(html: string) {
+        return html
+            .replace(/<[^>]*>/g, " ")
+            .split(/\s+/)
+            .filter((word) => word.length > 0).length;
+    }
+
+    private repairHexCode(group: Record<string, any>, option: Record<string, any>) {
+        const hexCode = this.normalizeHexCode(`${option.colorHexCode}`);
+
+        if (hexCode === option.colorHexCode) {
+            return;
+        }
+
+        if (hexCode) {
+            this.addIssue(
+                "property option",
+                option.name,
+                `color ${option.colorHexCode} normalized to ${hexCode}`,
+                "repaired",
+            );
+            option.colorHexCode = hexCode;
+        } else {
+            this.addIssue(
+                "property option",
+                option.name,
+                `invalid color ${option.colorHexCode} removed`,
+                "repaired",
+            );
+            delete option.colorHexCode;
+        }
+    }
+
+    // A list price is only shown as strike-through price if it's above the price.
+    private repairListPrice(name: string, product: Record<string, any>) {
+        if (product.listPrice === null || product.listPrice === undefined) {
+            return;
+        }
+
+        if (!Number.isFinite(product.listPrice) || product.listPrice <= product.price) {
+            this.addIssue(
+                "product",
+                name,
+                `list price ${product.listPrice} isn't above the price and was removed`,
+                "repaired",
+            );
+            product.listPrice = null;
+            return;
+        }
+
+        product.listPrice = this.repairNumber("product", name, "list price", product.listPrice, {
+            min: product.price,
+            max: this.rules.maxPrice,
+            decimals: 2,
+        });
+    }
+
+    private repairDimensions(name: string, product: Record<string, any>) {
+        (["weight", "width", "height", "length"] as const).forEach((field) => {
+            if (product[field] === undefined) {
+                return;
+            }
+
+            product[field] = this.repairNumber("product", name, field, product[field], {
+                min: 0,
+                max: Number.MAX_SAFE_INTEGER,
+                decimals: field === "weight" ? 3 : 0,
+            });
+        });
+    }
+
+    private repairMetaTexts(name: string, product: Record<string, any>) {
+        (["metaTitle", "metaDescription"] as const).forEach((field) => {
+            if (typeof product[field] === "string" && product[field].length > MAX_META_LENGTH) {
+                this.addIssue("product", name, `${field} shortened`, "repaired");
+                product[field] = product[field].slice(0, MAX_META_LENGTH).trim();
+            }
+        });
+    }
+
+    private repairReviews(productName: string, reviews: Record<string, any>[]) {
+        return reviews.filter((review) => {
+            if (!review.content?.trim()) {
+                this.addIssue("review", productName, "empty review removed", "repaired");
+                return false;
+            }
+
+            review.points = this.repairNumber("review", productName, "points", review.points, {
+                min: 1,
+                max: 5,
+                decimals: 0,
+            });
+
+            return true;
+        });
+    }
+
+    private repairNumber(
+        entity: string,
+        name: string,
+        field: string,
+        value: number,
+        range: { min: number; max: number; decimals: number },
+    ) {
+        const factor = 10 ** range.decimals;
+        const number = Number.isFinite(value) ? value : range.min;
+        const repaired =
+            Math.round(Math.min(Math.max(number, range.min), range.max) * factor) / factor;
+
+        // Floating point noise like 19.990000000000002 isn't worth an issue.
+        if (!Number.isFinite(value) || Math.abs(repaired - value) > 1e-9) {
+            this.addIssue(entity, name, `${field} ${value} changed to ${repaired}`, "repaired");
+        }
+
+        return repaired;
+    }
+
+    private addIssue(entity: string, name: string, message: string, action: ValidationAction) {
+        this.issues.push({ entity: entity, name: name, message: message, action: action });
+    }
+}
@@ -0,0 +1,283 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import {
+    CategoryDefinition,
+    LandingPageDefinition,
+    ManufacturerDefinition,
+    ProductDefinition,
+    ProductReviewDefinition,
+    PropertyGroupDefinition,
+    PropertyOptionDefinition,
+} from "./entities.js";
+
+export const DATASET_VERSION = 1;
+
+const DatasetImageDefinition = z.object({
+    name: z.string(),
+    type: z.string(),
+    file: z.string(),
+    alt: z.string().optional(),
+});
+
+// Translated fields keyed by locale, e.g. { "de-DE": { "name": "..." } }.
+const TranslationsDefinition = z.record(z.record(z.string()));
+
+type DatasetCategory = z.infer<typeof CategoryDefinition> & {
+    translations?: Record<string, Record<string, string>>;
+    children?: DatasetCategory[];
+};
+
+const DatasetCategoryDefinition: z.ZodType<DatasetCategory> = CategoryDefinition.extend({
+    translations: TranslationsDefinition.optional(),
+    children: z.lazy(() => z.array(DatasetCategoryDefinition)).optional(),
+});
+
+// Datasets exported before products had master data are still valid.
+const DatasetProductDefinition = ProductDefinition.partial({
+    listPrice: true,
+    manufacturerNumber: true,
+    weight: true,
+    width: true,
+    height: true,
+    length: true,
+    metaTitle: true,
+    metaDescription: true,
+    keywords: true,
+});
+
+export const DatasetManifestDefinition = z.object({
+    version: z.literal(DATASET_VERSION),
+    category: z.string(),
+    categoryTranslations: TranslationsDefinition.optional(),
+    categoryTree: z.array(DatasetCategoryDefinition).optional(),
+    createdAt: z.string(),
+    landingPage: LandingPageDefinition.extend({
+        banner: DatasetImageDefinition.optional(),
+        translations: TranslationsDefinition.optional(),
+    }).optional(),
+    manufacturer: ManufacturerDefinition.extend({
+        logo: DatasetImageDefinition.optional(),
+        translations: TranslationsDefinition.optional(),
+    }).optional(),
+    propertyGroups: z.array(
+        PropertyGroupDefinition.extend({
+            id: z.string(),
+            translations: TranslationsDefinition.optional(),
+            options: z.array(
+                PropertyOptionDefinition.extend({
+                    id: z.string(),
+                    translations: TranslationsDefinition.optional(),
+                }),
+            ),
+        }),
+    ),
+    products: z.array(
+        DatasetProductDefinition.extend({
+            ean: z.string().optional(),
+            translations: TranslationsDefinition.optional(),
+            productReviews: z
+                .array(
+                    ProductReviewDefinition.extend({
+                        translations: TranslationsDefinition.optional(),
+                    }),
+                )
+                .optional(),
+            options: z.array(z.object({ id: z.string() })).optional(),
+            image: DatasetImageDefinition.optional(),
+            gallery: z.array(DatasetImageDefinition).optional(),
+        }).passthrough(),
+    ),
+});
+
+export type DatasetManifest = z.infer<typeof DatasetManifestDefinition>;
+
+export interface Dataset {
+    category: string;
+    categoryTranslations?: Record<string, Record<string, string>>;
+    categoryTree?: Record<string, any>[];
+    landingPage?: Record<string, any> | null;
+    manufacturer?: Record<string, any> | null;
+    propertyGroups: Record<string, any>[];
+    products: Record<string, any>[];
+}
+
+export class DatasetStore {
+    public readonly datasetDir: string;
+    public readonly manifestPath: string;
+    public readonly imageDir: string;
+
+    constructor(datasetDir: string) {
+        this.datasetDir = datasetDir;
+        this.manifestPath = path.join(datasetDir, "manifest.json");
+        this.imageDir = path.join(datasetDir, "images");
+    }
+
+    write(dataset: Dataset) {
+        fs.mkdirSync(this.imageDir, { recursive: true });
+
+        const products = dataset.products.map((product, index) => {
+            const productData: Record<string, any> = { ...product };
+
+            if (product.image) {
+                productData.image = this.writeImage(product.image, `${index + 1}`);
+            }
+
+            if (product.gallery) {
+                productData.gallery = product.gallery.map(
+                    (image: Record<string, any>, imageIndex: number) =>
+                        this.writeImage(image, `${index + 1}-gallery-${imageIndex + 1}`),
+                );
+            }
+
+            if (product.variants) {
+                productData.variants = product.variants.map(
+                    (variant: Record<string, any>, variantIndex: number) => {
+                        if (!variant.image) {
+                            return variant;
+                        }
+
+                        return {
+                            ...variant,
+                            image: this.writeImage(
+                                variant.image,
+                                `${index + 1}-${variantIndex + 1}`,
+                            ),
+                        };
+                    },
+                );
+            }
+
+            return productData;
+        });
+
+        const manifest = DatasetManifestDefinition.parse({
+            version: DATASET_VERSION,
+            category: dataset.category,
+            categoryTranslations: dataset.categoryTranslations,
+            categoryTree: dataset.categoryTree,
+            createdAt: new Date().toISOString(),
+            landingPage: dataset.landingPage
+                ? {
+                      ...dataset.landingPage,
+                      banner: dataset.landingPage.banner
+                          ? this.writeImage(dataset.landingPage.banner, "landing-page")
+                          : undefined,
+                  }
+                : undefined,
+            manufacturer: dataset.manufacturer
+                ? {
+                      ...dataset.manufacturer,
+                      logo: dataset.manufacturer.logo
+                          ? this.writeImage(dataset.manufacturer.logo, "manufacturer")
+                          : undefined,
+                  }
+                : undefined,
+            propertyGroups: dataset.propertyGroups,
+            products: products,
+        });
+
+        fs.writeFileSync(this.manifestPath, JSON.stringify(manifest, null, 4));
+
+        console.log(`Dataset with ${products.length} products written to ${this.datasetDir}.`);
+
+        return manifest;
+    }
+
+    read(): Dataset {
+        if (!fs.existsSync(this.manifestPath)) {
+            throw new Error(`No dataset manifest found at ${this.manifestPath}.`);
+        }
+
+        const rawManifest = JSON.parse(fs.readFileSync(this.manifestPath, "utf-8"));
+
+        if (rawManifest.version !== DATASET_VERSION) {
+            throw new Error(
+                `Unsupported dataset version ${rawManifest.version}, expected ${DATASET_VERSION}.`,
+            );
+        }
+
+        const manifest = DatasetManifestDefinition.parse(rawManifest);
+
+        const products = manifest.products.map((product) => {
+            const productData: Record<string, any> = { ...product };
+
+            if (product.image) {
+                productData.image = this.readImage(product.image);
+            }
+
+            if (product.gallery) {
+                productData.gallery = product.gallery
+                    .map((image) => this.readImage(image))
+                    .filter((image) => !!image);
+            }
+
+            if (Array.isArray(product["variants"])) {
+                productData.variants = product["variants"].map((variant: Record<string, any>) => {
+                    return variant.image
+                        ? { ...variant, image: this.readImage(variant.image) }
+                        : variant;
+                });
+            }
+
+            return productData;
+        });
+
+        const manufacturer = manifest.manufacturer
+            ? {
+                  ...manifest.manufacturer,
+                  logo: manifest.manufacturer.logo
+                      ? this.readImage(manifest.manufacturer.logo)
+                      : undefined,
+              }
+            : null;
+
+        const landingPage = manifest.landingPage
+            ? {
+                  ...manifest.landingPage,
+                  banner: manifest.landingPage.banner
+                      ? this.readImage(manifest.landingPage.banner)
+                      : undefined,
+              }
+            : null;
+
+        return {
+            category: manifest.category,
+            categoryTranslations: manifest.categoryTranslations,
+            categoryTree: manifest.categoryTree,
+            landingPage: landingPage,
+            manufacturer: manufacturer,
+            propertyGroups: manifest.propertyGroups,
+            products: products,
+        };
+    }
+
+    private writeImage(image: Record<string, any>, prefix: string) {
+        const imageFile = path.posix.join("images", `${prefix}-${image.name}${image.type}`);
+
+        fs.writeFileSync(path.join(this.datasetDir, imageFile), image.data, "base64");
+
+        return {
+            name: image.name,
+            type: image.type,
+            file: imageFile,
+            alt: image.alt,
+        };
+    }
+
+    private readImage(image: z.infer<typeof DatasetImageDefinition>) {
+        const imagePath = path.join(this.datasetDir, image.file);
+
+        if (!fs.existsSync(imagePath)) {
+            console.warn(`Image ${imagePath} is missing.`);
+            return undefined;
+        }
+
+        return {
+            name: image.name,
+            type: image.type,
+            data: fs.readFileSync(imagePath, { encoding: "base64" }),
+            alt: image.alt,
+        };
+    }
+}
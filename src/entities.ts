@@ -1,10 +1,25 @@
 import { z } from "zod";
 
+// Weights are in kilograms and dimensions in millimeters, like in Shopware.
 export const ProductDefinition = z.object({
     name: z.string(),
     description: z.string(),
     price: z.number(),
+    listPrice: z.number().nullable(),
     stock: z.number(),
+    manufacturerNumber: z.string(),
+    weight: z.number(),
+    width: z.number(),
+    height: z.number(),
+    length: z.number(),
+    metaTitle: z.string(),
+    metaDescription: z.string(),
+    keywords: z.string(),
+});
+
+export const ManufacturerDefinition = z.object({
+    name: z.string(),
+    description: z.string(),
 });
 
 export const PropertyOptionDefinition = z.object({
@@ -27,3 +42,52 @@ export const ProductReviewDefinition = z.object({
     points: z.number().int(),
     status: z.boolean(),
 });
+
+export const ProductVariantDefinition = z.object({
+    variantNumber: z.number().int(),
+    stock: z.number().int(),
+    priceDelta: z.number(),
+});
+
+export const CrossSellingDefinition = z.object({
+    productNumber: z.number().int(),
+    similar: z.array(z.number().int()),
+    accessories: z.array(z.number().int()),
+    boughtTogether: z.array(z.number().int()),
+});
+
+export const LandingPageDefinition = z.object({
+    headline: z.string(),
+    introText: z.string(),
+    sliderTitle: z.string(),
+});
+
+export const CategoryDefinition = z.object({
+    name: z.string(),
+    description: z.string(),
+});
+
+// A promotion applies either to the products of the generated category or to the whole cart.
+export const PromotionDefinition = z.object({
+    name: z.string(),
+    code: z.string(),
+    individualCodes: z.boolean(),
+    discountType: z.enum(["percentage", "absolute"]),
+    discountValue: z.number(),
+    validDays: z.number().int(),
+    scope: z.enum(["category", "salesChannel"]),
+});
+
+export const CustomerAddressDefinition = z.object({
+    street: z.string(),
+    zipcode: z.string(),
+    city: z.string(),
+});
+
+export const CustomerDefinition = z.object({
+    salutation: z.enum(["mr", "mrs", "not_specified"]),
+    firstName: z.string(),
+    lastName: z.string(),
+    email: z.string(),
+    address: CustomerAddressDefinition,
+});
@@ -0,0 +1,28 @@
+// Numbers from the environment are validated, so a typo fails at the start instead of e.g.
+// running without concurrency or retries.
+export function getEnvNumber(
+    env: Record<string, string | undefined>,
+    name: string,
+    defaultValue: number,
+    integer = true,
+    min = 0,
+    max = Infinity,
+) {
+    const value = env[name];
+
+    if (value === undefined || value === "") {
+        return defaultValue;
+    }
+
+    const number = Number(value);
+
+    if (isNaN(number) || number < min || number > max || (integer && !Number.isInteger(number))) {
+        const range = max === Infinity ? `of at least ${min}` : `between ${min} and ${max}`;
+
+        throw new Error(
+            `${name} must be ${integer ? "an integer" : "a number"} ${range}, got "${value}".`,
+        );
+    }
+
+    return number;
+}
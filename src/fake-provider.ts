@@ -0,0 +1,239 @@
+import crypto from "node:crypto";
+import zlib from "node:zlib";
+import { z } from "zod";
+import type { GenerationProvider } from "./generation-provider.js";
+
+const LOREM_IPSUM =
+    "Lorem ipsum dolor sit amet, consectetur adipiscing elit, sed do eiusmod tempor incididunt ut " +
+    "labore et dolore magna aliqua. Ut enim ad minim veniam, quis nostrud exercitation ullamco " +
+    "laboris nisi ut aliquip ex ea commodo consequat.";
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+
+    return c >>> 0;
+});
+
+// Returns schema-valid sample data and placeholder images without any network access.
+export class FakeProvider implements GenerationProvider {
+    public readonly name = "fake";
+    public readonly chatModel = "fake-chat";
+    public readonly imageModel = "fake-image";
+
+    private completionCount = 0;
+    private descriptionWordCount = 0;
+
+    async completeStructured(prompt: string, schema: z.ZodTypeAny, schemaName: string) {
+        this.completionCount++;
+
+        // Descriptions get the requested length, so they pass the validation of generated data.
+        this.descriptionWordCount = parseInt(/at least (\d+) words/.exec(prompt)?.[1] ?? "0", 10);
+
+        const data = this.createValue(schema, [schemaName], this.completionCount);
+
+        // Roughly four characters per token, so usage reports and budgets can be tried out offline.
+        return {
+            data: data,
+            usage: {
+                promptTokens: Math.ceil(prompt.length / 4),
+                completionTokens: Math.ceil(JSON.stringify(data).length / 4),
+            },
+        };
+    }
+
+    async generateImage(prompt: string, size = "1024x1024") {
+        const [width = 1024, height = 1024] = size.split("x").map((value) => parseInt(value, 10));
+        const color = crypto.createHash("sha256").update(prompt).digest();
+
+        return this.createPng(width, height, [color[0] ?? 0, color[1] ?? 0, color[2] ?? 0]);
+    }
+
+    private createValue(schema: z.ZodTypeAny, path: (string | number)[], seed: number): any {
+        if (
+            schema instanceof z.ZodOptional ||
+            schema instanceof z.ZodNullable ||
+            schema instanceof z.ZodDefault
+        ) {
+            return this.createValue(schema._def.innerType, path, seed);
+        }
+
+        if (schema instanceof z.ZodEffects) {
+            return this.createValue(schema._def.schema, path, seed);
+        }
+
+        if (schema instanceof z.ZodObject) {
+            const shape = schema.shape as Record<string, z.ZodTypeAny>;
+
+            return Object.fromEntries(
+                Object.entries(shape).map(([key, valueSchema]) => [
+                    key,
+                    this.createValue(valueSchema, [...path, key], seed),
+                ]),
+            );
+        }
+
+        if (schema instanceof z.ZodArray) {
+            const minLength = schema._def.minLength?.value ?? 0;
+            const length = Math.max(minLength, this.isEnumArray(schema) ? 2 : 5);
+
+            return Array.from({ length }, (_, index) =>
+                this.createValue(schema._def.type, [...path, index], seed + index),
+            );
+        }
+
+        if (schema instanceof z.ZodEnum) {
+            const options = schema.options as string[];
+            return options[seed % options.length];
+        }
+
+        if (schema instanceof z.ZodLiteral) {
+            return schema.value;
+        }
+
+        if (schema instanceof z.ZodUnion) {
+            return this.createValue(schema.options[0], path, seed);
+        }
+
+        if (schema instanceof z.ZodBoolean) {
+            return true;
+        }
+
+        if (schema instanceof z.ZodNumber) {
+            return this.createNumber(schema, path, seed);
+        }
+
+        if (schema instanceof z.ZodString) {
+            return this.createString(path, seed);
+        }
+
+        return null;
+    }
+
+    private createNumber(schema: z.ZodNumber, path: (string | number)[], seed: number) {
+        const key = String(path[path.length - 1]);
+        const isInt = schema.isInt;
+
+        let value: number;
+
+        const itemIndex = path[path.length - 2];
+
+        if (key.endsWith("Number") && typeof itemIndex === "number") {
+            value = itemIndex + 1;
+        } else if (key === "points") {
+            value = (seed % 5) + 1;
+        } else if (key === "price") {
+            value = 9.99 + (seed % 20) * 5;
+        } else if (key === "listPrice") {
+            value = 19.99 + (seed % 20) * 5;
+        } else if (key === "stock") {
+            value = 10 + (seed % 10) * 5;
+        } else {
+            value = seed;
+        }
+
+        if (schema.minValue !== null) {
+            value = Math.max(value, schema.minValue);
+        }
+
+        if (schema.maxValue !== null) {
+            value = Math.min(value, schema.maxValue);
+        }
+
+        return isInt ? Math.round(value) : value;
+    }
+
+    private createString(path: (string | number)[], seed: number) {
+        const key = String(path[path.length - 1]);
+        const owner = String(path.filter((segment) => typeof segment === "string").at(-2));
+
+        if (key.toLowerCase().includes("email")) {
+            return `user${seed}@example.com`;
+        }
+
+        if (key.toLowerCase().includes("hex")) {
+            return `#${((seed * 0x2f5a3b) & 0xffffff).toString(16).padStart(6, "0")}`;
+        }
+
+        if (key === "description" && this.descriptionWordCount > 0) {
+            const words = LOREM_IPSUM.split(" ");
+            const text = Array.from(
+                { length: this.descriptionWordCount },
+                (_, index) => words[index % words.length],
+            );
+
+            return `<p>${text.join(" ")}</p>`;
+        }
+
+        if (key === "description" || key === "content") {
+            return `<p>${LOREM_IPSUM}</p>`;
+        }
+
+        if (key === "name" || key === "title" || key === "externalUser") {
+            return `Fake ${this.humanize(owner)} ${seed}`;
+        }
+
+        return `Fake ${this.humanize(key)} ${seed}`;
+    }
+
+    private humanize(key: string) {
+        return key
+            .replace(/([a-z])([A-Z])/g, "$1 $2")
+            .replace(/ies$/, "y")
+            .replace(/s$/, "")
+            .toLowerCase();
+    }
+
+    private isEnumArray(schema: z.ZodArray<z.ZodTypeAny>) {
+        const itemSchema = schema._def.type;
+
+        return (
+            itemSchema instanceof z.ZodObject &&
+            Object.values(itemSchema.shape).some((value) => value instanceof z.ZodEnum)
+        );
+    }
+
+    private createPng(width: number, height: number, rgb: [number, number, number]) {
+        const row = Buffer.alloc(1 + width * 3);
+
+        for (let x = 0; x < width; x++) {
+            row.set(rgb, 1 + x * 3);
+        }
+
+        const header = Buffer.alloc(13);
+        header.writeUInt32BE(width, 0);
+        header.writeUInt32BE(height, 4);
+        header.set([8, 2, 0, 0, 0], 8);
+
+        return Buffer.concat([
+            Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+            this.createPngChunk("IHDR", header),
+            this.createPngChunk("IDAT", zlib.deflateSync(Buffer.concat(Array(height).fill(row)))),
+            this.createPngChunk("IEND", Buffer.alloc(0)),
+        ]).toString("base64");
+    }
+
+    private createPngChunk(type: string, data: Buffer) {
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(data.length);
+
+        const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+        const crc = Buffer.alloc(4);
+        crc.writeUInt32BE(this.crc32(typeAndData));
+
+        return Buffer.concat([length, typeAndData, crc]);
+    }
+
+    private crc32(buffer: Buffer) {
+        let crc = 0xffffffff;
+
+        for (const byte of buffer) {
+            crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+        }
+
+        return (crc ^ 0xffffffff) >>> 0;
+    }
+}
@@ -0,0 +1,518 @@
+import type { DataGenerator, GenerationProgressCallback } from "./data-generator.js";
+import type { DataHydrator, SyncReport } from "./data-hydrator.js";
+import { type Dataset, DatasetStore } from "./dataset.js";
+import { DataValidator, type ValidationSummary } from "./data-validator.js";
+import { RecordingProvider } from "./recording-provider.js";
+import type { RunStore } from "./run-store.js";
+import {
+    type ExpectedProduct,
+    StoreApiVerifier,
+    type VerificationReport,
+} from "./store-api-verifier.js";
+import type { TaskFailure } from "./task-runner.js";
+import { type UsageSummary, type UsageTotals, UsageTracker } from "./usage-tracker.js";
+
+export type GenerationPhase =
+    | "propertyGroups"
+    | "products"
+    | "images"
+    | "variants"
+    | "crossSelling"
+    | "landingPage"
+    | "translations"
+    | "categories"
+    | "customers"
+    | "orders"
+    | "promotions"
+    | "hydration"
+    | "verification";
+
+export interface GenerationOptions {
+    category: string;
+    productCount: number;
+    propertyGroupCount: number;
+    generateImages: boolean;
+    generateReviews: boolean;
+    descriptionWordCount: number;
+    additionalInformation: string;
+    galleryImageCount: number;
+    variantGroupCount: number;
+    variantImages: boolean;
+    categoryDepth: number;
+    crossSelling: boolean;
+    landingPage: boolean;
+    locales: string[];
+    promotionCount: number;
+    customerCount: number;
+    orderCount: number;
+    orderPeriodDays: number;
+    salesChannelName: string;
+    verify: boolean;
+}
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+    category: "soft drinks",
+    productCount: 10,
+    propertyGroupCount: 2,
+    generateImages: true,
+    generateReviews: true,
+    descriptionWordCount: 200,
+    additionalInformation: "",
+    galleryImageCount: 0,
+    variantGroupCount: 0,
+    variantImages: false,
+    categoryDepth: 0,
+    crossSelling: false,
+    landingPage: false,
+    locales: [],
+    promotionCount: 0,
+    customerCount: 0,
+    orderCount: 0,
+    orderPeriodDays: 90,
+    salesChannelName: "Storefront",
+    verify: false,
+};
+
+export interface GenerationReport {
+    runId: string | null;
+    category: string;
+    propertyGroups: string[];
+    products: string[];
+    promotions: number;
+    customers: number;
+    orders: number;
+    sync: SyncReport;
+    failures: TaskFailure[];
+    validation: ValidationSummary;
+    verification: VerificationReport | null;
+    usage: UsageSummary;
+    replayMisses: number;
+}
+
+// The steps of a generation, shared by the CLI and the server so both produce the same data.
+// Without a data generator, only datasets can be imported.
+export class GenerationPipeline {
+    public readonly dataGenerator: DataGenerator | null;
+    public readonly dataHydrator: DataHydrator;
+
+    public onPhase: ((phase: GenerationPhase) => void) | null = null;
+    public onProgress: GenerationProgressCallback | null = null;
+
+    constructor(dataGenerator: DataGenerator | null, dataHydrator: DataHydrator) {
+        this.dataGenerator = dataGenerator;
+        this.dataHydrator = dataHydrator;
+    }
+
+    estimate(options: GenerationOptions): UsageTotals {
+        return this.getDataGenerator().estimateUsage(
+            options.productCount,
+            options.generateImages,
+            options.variantGroupCount,
+            options.variantImages,
+            options.categoryDepth,
+            options.customerCount,
+            options.locales,
+            options.galleryImageCount,
+            options.crossSelling,
+            options.landingPage,
+            options.promotionCount,
+        );
+    }
+
+    // Property groups only get their ids here, because the products need them. Nothing is written
+    // to the environment, so the whole dataset is validated before the first write.
+    async generateDataset(
+        options: GenerationOptions,
+        existingPropertyGroups: Record<string, any>[] = [],
+    ): Promise<Dataset> {
+        const dataGenerator = this.getDataGenerator();
+
+        this.setPhase("propertyGroups");
+
+        const propertyGroups = this.dataHydrator.preparePropertyGroups(
+            await dataGenerator.translatePropertyGroups(
+                await dataGenerator.generatePropertyGroups(
+                    options.category,
+                    options.propertyGroupCount,
+                    existingPropertyGroups,
+                ),
+                options.locales,
+            ),
+        );
+
+        this.setPhase("products");
+
+        const manufacturer = await dataGenerator.generateManufacturer(
+            options.category,
+            options.generateImages,
+            options.additionalInformation,
+        );
+
+        let products = await dataGenerator.generateProducts(
+            options.category,
+            options.productCount,
+            propertyGroups,
+            options.generateImages,
+            options.generateReviews,
+            options.descriptionWordCount,
+            options.additionalInformation,
+            (phase, done, total) => {
+                if (phase === "images") {
+                    this.setPhase("images");
+                }
+
+                this.onProgress?.(phase, done, total);
+            },
+            manufacturer,
+        );
+
+        if (!products.length) {
+            throw new Error("No products could be generated.");
+        }
+
+        if (options.galleryImageCount > 0) {
+            this.setPhase("images");
+
+            products = await dataGenerator.generateProductGalleries(
+                products,
+                options.category,
+                options.galleryImageCount,
+            );
+        }
+
+        if (options.variantGroupCount > 0) {
+            this.setPhase("variants");
+
+            products = await dataGenerator.generateProductVariants(
+                products,
+                propertyGroups.slice(0, options.variantGroupCount),
+                options.category,
+                options.variantImages,
+            );
+        }
+
+        if (options.crossSelling) {
+            this.setPhase("crossSelling");
+
+            products = await dataGenerator.generateCrossSellings(products, options.category);
+        }
+
+        let landingPage: Record<string, any> | null = null;
+
+        if (options.landingPage) {
+            this.setPhase("landingPage");
+
+            landingPage = await dataGenerator.generateLandingPage(
+                options.category,
+                products,
+                options.generateImages,
+                options.additionalInformation,
+            );
+        }
+
+        let categoryTree: Record<string, any>[] | undefined;
+
+        if (options.categoryDepth > 0) {
+            this.setPhase("categories");
+
+            categoryTree = await dataGenerator.generateCategoryTree(
+                options.category,
+                options.categoryDepth,
+            );
+            await dataGenerator.assignProductsToCategories(products, categoryTree);
+        }
+
+        let categoryTranslations = {};
+
+        if (options.locales.length) {
+            this.setPhase("translations");
+
+            products = await dataGenerator.translateProducts(products, options.locales);
+            categoryTranslations = await dataGenerator.translateCategory(
+                options.category,
+                options.locales,
+                categoryTree,
+            );
+
+            if (manufacturer) {
+                await dataGenerator.translateManufacturer(manufacturer, options.locales);
+            }
+
+            if (landingPage) {
+                await dataGenerator.translateLandingPage(landingPage, options.locales);
+            }
+        }
+
+        return {
+            category: options.category,
+            categoryTranslations: categoryTranslations,
+            categoryTree: categoryTree,
+            landingPage: landingPage,
+            manufacturer: manufacturer,
+            propertyGroups: propertyGroups,
+            products: products,
+        };
+    }
+
+    // Exports only need the generated data, so no Shopware environment is involved.
+    async exportDataset(options: GenerationOptions, datasetDir: string) {
+        const start = this.getReport();
+        const dataset = await this.generateDataset(options);
+
+        this.printValidation(start);
+        new DatasetStore(datasetDir).write(dataset);
+
+        return this.getReport(dataset);
+    }
+
+    // Generates the data and writes it to the authenticated environment.
+    async hydrate(options: GenerationOptions, runStore: RunStore) {
+        const dataGenerator = this.getDataGenerator();
+        const dataHydrator = this.dataHydrator;
+        const start = this.getReport();
+
+        // New data extends what the environment already contains instead of duplicating it.
+        dataGenerator.addKnownProductNames(
+            await dataHydrator.getExistingProductNames(options.category, options.salesChannelName),
+        );
+
+        const dataset = await this.generateDataset(
+            options,
+            await dataHydrator.getExistingPropertyGroups(),
+        );
+        const promotions = await this.generatePromotions(options);
+        const customers = await this.generateCustomers(options);
+
+        this.printValidation(start);
+
+        // The run starts with the first write, so a failed generation leaves no run behind.
+        await dataHydrator.startRun(runStore, options.category);
+
+        const expectedFrom = dataHydrator.expectedProducts.length;
+
+        await dataHydrator.hydrateEnvWithPropertyGroups(dataset.propertyGroups);
+        await this.hydrateProducts(dataset, options.salesChannelName);
+        await this.hydratePromotions(promotions, options);
+        await this.hydrateCustomers(customers, options);
+
+        const verification = options.verify
+            ? await this.verifyProducts(
+                  dataHydrator.expectedProducts.slice(expectedFrom),
+                  options.salesChannelName,
+              )
+            : null;
+
+        return this.finishRun(runStore, dataset, verification, start);
+    }
+
+    // Writes an exported dataset to the authenticated environment without generating anything.
+    async importDataset(
+        dataset: Dataset,
+        runStore: RunStore,
+        salesChannelName = "Storefront",
+        verify = false,
+    ) {
+        const start = this.getReport();
+
+        await this.dataHydrator.startRun(runStore, dataset.category);
+
+        this.setPhase("propertyGroups");
+        await this.dataHydrator.hydrateEnvWithPropertyGroups(dataset.propertyGroups);
+
+        const expectedFrom = this.dataHydrator.expectedProducts.length;
+
+        await this.hydrateProducts(dataset, salesChannelName);
+
+        const verification = verify
+            ? await this.verifyProducts(
+                  this.dataHydrator.expectedProducts.slice(expectedFrom),
+                  salesChannelName,
+              )
+            : null;
+
+        return this.finishRun(runStore, dataset, verification, start);
+    }
+
+    // Checks through the Store API of the sales channel that the products show up in the
+    // storefront. The access key is taken from the sales channel.
+    async verifyProducts(products: ExpectedProduct[], salesChannelName: string) {
+        this.setPhase("verification");
+
+        const verifier = new StoreApiVerifier(
+            this.dataHydrator.envPath || "http://localhost:8000",
+            await this.dataHydrator.getStandardSalesChannel(salesChannelName),
+            this.dataHydrator.taskRunner,
+        );
+
+        return await verifier.verifyProducts(products);
+    }
+
+    // Promotions need the category in the environment, so they aren't part of datasets.
+    async generatePromotions(options: GenerationOptions): Promise<Record<string, any>[]> {
+        if (options.promotionCount <= 0) {
+            return [];
+        }
+
+        this.setPhase("promotions");
+
+        return await this.getDataGenerator().generatePromotions(
+            options.promotionCount,
+            options.category,
+            options.additionalInformation,
+        );
+    }
+
+    async hydratePromotions(promotions: Record<string, any>[], options: GenerationOptions) {
+        if (!promotions.length) {
+            return;
+        }
+
+        await this.dataHydrator.hydrateEnvWithPromotions(
+            promotions,
+            options.category,
+            options.salesChannelName,
+        );
+    }
+
+    // Customers get an address in the country of the sales channel.
+    async generateCustomers(options: GenerationOptions): Promise<Record<string, any>[]> {
+        if (options.customerCount <= 0) {
+            return [];
+        }
+
+        this.setPhase("customers");
+
+        const country = await this.dataHydrator.getSalesChannelCountry(options.salesChannelName);
+
+        return await this.getDataGenerator().generateCustomers(
+            options.customerCount,
+            country?.name,
+        );
+    }
+
+    // Writes the customers and generates their orders with the products of the authenticated
+    // environment. Orders use the given products, the products of the current run by default.
+    async hydrateCustomers(
+        generatedCustomers: Record<string, any>[],
+        options: GenerationOptions,
+        productIds: string[] = this.dataHydrator.run?.entities.product || [],
+    ) {
+        const dataGenerator = this.getDataGenerator();
+        const dataHydrator = this.dataHydrator;
+
+        if (!generatedCustomers.length) {
+            return;
+        }
+
+        const customers = await dataHydrator.hydrateEnvWithCustomers(
+            generatedCustomers,
+            options.salesChannelName,
+        );
+
+        if (options.orderCount > 0 && customers.length) {
+            this.setPhase("orders");
+
+            const orderProducts = await dataHydrator.getOrderableProducts(100, productIds);
+
+            await dataHydrator.hydrateEnvWithOrders(
+                dataGenerator.generateOrders(
+                    options.orderCount,
+                    customers.length,
+                    orderProducts.length,
+                    options.orderPeriodDays,
+                ),
+                customers,
+                orderProducts,
+                options.salesChannelName,
+            );
+        }
+    }
+
+    // With an earlier report, usage and validation only cover what happened since then, e.g. in
+    // one category of a scenario.
+    getReport(
+        dataset: Dataset | null = null,
+        verification: VerificationReport | null = null,
+        since: GenerationReport | null = null,
+    ): GenerationReport {
+        const written = this.dataHydrator.syncReport.written;
+
+        return {
+            runId: this.dataHydrator.run?.id ?? null,
+            category: dataset?.category ?? "",
+            propertyGroups: dataset?.propertyGroups.map((group) => group.name) ?? [],
+            products: dataset?.products.map((product) => product.name) ?? [],
+            promotions: written["promotion"] ?? 0,
+            customers: written["customer"] ?? 0,
+            orders: written["order"] ?? 0,
+            sync: this.dataHydrator.syncReport,
+            failures: [
+                ...(this.dataGenerator?.taskRunner.failures ?? []),
+                ...this.dataHydrator.taskRunner.failures,
+            ],
+            validation: (this.dataGenerator?.dataValidator ?? new DataValidator()).getSummary(
+                since?.validation,
+            ),
+            verification: verification,
+            usage: (this.dataGenerator?.usageTracker ?? new UsageTracker()).getSummary(
+                since?.usage,
+            ),
+            replayMisses:
+                this.dataGenerator?.provider instanceof RecordingProvider
+                    ? this.dataGenerator.provider.replayMisses
+                    : 0,
+        };
+    }
+
+    // Printed once everything is generated and validated, before the first entity is written.
+    printValidation(since: GenerationReport | null = null) {
+        const validation = this.getReport(null, null, since).validation;
+
+        console.log(
+            `Validation: ${validation.repaired} repaired, ${validation.regenerated} regenerated, ` +
+                `${validation.dropped} dropped.`,
+        );
+    }
+
+    private async hydrateProducts(dataset: Dataset, salesChannelName: string) {
+        this.setPhase("hydration");
+
+        await this.dataHydrator.hydrateEnvWithProducts(
+            dataset.products,
+            dataset.category,
+            salesChannelName,
+            dataset.categoryTranslations,
+            dataset.categoryTree,
+            dataset.manufacturer,
+            dataset.landingPage,
+        );
+    }
+
+    private finishRun(
+        runStore: RunStore,
+        dataset: Dataset,
+        verification: VerificationReport | null = null,
+        start: GenerationReport | null = null,
+    ) {
+        const report = this.getReport(dataset, verification, start);
+
+        if (this.dataHydrator.run) {
+            this.dataHydrator.run.usage = report.usage;
+            runStore.save(this.dataHydrator.run);
+        }
+
+        return report;
+    }
+
+    private getDataGenerator() {
+        if (!this.dataGenerator) {
+            throw new Error("Generating data requires a data generator.");
+        }
+
+        return this.dataGenerator;
+    }
+
+    private setPhase(phase: GenerationPhase) {
+        this.onPhase?.(phase);
+    }
+}
@@ -0,0 +1,94 @@
+import type { z } from "zod";
+import { getEnvNumber } from "./env.js";
+import { OpenAIProvider } from "./openai-provider.js";
+import { FakeProvider } from "./fake-provider.js";
+import { RecordingProvider } from "./recording-provider.js";
+import type { TokenUsage } from "./usage-tracker.js";
+
+export interface StructuredCompletion {
+    data: Record<string, any> | null;
+    usage: TokenUsage | null;
+}
+
+export interface GenerationProvider {
+    readonly name: string;
+    readonly chatModel: string;
+    readonly imageModel: string;
+    readonly skipImageCache?: boolean;
+    // Random values of the generated data, e.g. EANs and orders, are derived from the seed.
+    readonly seed?: number | null;
+
+    completeStructured(
+        prompt: string,
+        schema: z.ZodTypeAny,
+        schemaName: string,
+    ): Promise<StructuredCompletion>;
+
+    generateImage(prompt: string, size?: string): Promise<string | null>;
+}
+
+export const DEFAULT_CHAT_MODEL = "gpt-4.1-2025-04-14";
+export const DEFAULT_IMAGE_MODEL = "gpt-image-1";
+
+export function createGenerationProvider(
+    env: Record<string, string | undefined>,
+): GenerationProvider {
+    const recordingMode = env["LLM_RECORDING"];
+    const recordingDir = env["LLM_RECORDING_DIR"] || "./recordings";
+
+    // Replays don't need the configured provider, so they work without network or API key.
+    switch (recordingMode) {
+        case undefined:
+        case "":
+            return createBaseProvider(env);
+        case "record":
+            return RecordingProvider.record(createBaseProvider(env), recordingDir);
+        case "replay":
+            return RecordingProvider.replay(recordingDir);
+        default:
+            throw new Error(`Unknown LLM_RECORDING "${recordingMode}".`);
+    }
+}
+
+function createBaseProvider(env: Record<string, string | undefined>) {
+    const providerName = env["LLM_PROVIDER"] || "openai";
+    const chatModel = env["LLM_CHAT_MODEL"] || DEFAULT_CHAT_MODEL;
+    const imageModel = env["LLM_IMAGE_MODEL"] || DEFAULT_IMAGE_MODEL;
+    const temperature = env["LLM_TEMPERATURE"]
+        ? getEnvNumber(env, "LLM_TEMPERATURE", 0, false)
+        : null;
+    const seed = env["LLM_SEED"] ? getEnvNumber(env, "LLM_SEED", 0) : null;
+
+    switch (providerName) {
+        case "openai": {
+            const apiKey = env["OPENAI_API_KEY"];
+
+            if (!apiKey) {
+                throw new Error("OPENAI_API_KEY is missing!");
+            }
+
+            return new OpenAIProvider(apiKey, chatModel, imageModel, undefined, temperature, seed);
+        }
+        case "openai-compatible": {
+            const baseURL = env["LLM_BASE_URL"];
+
+            if (!baseURL) {
+                throw new Error("LLM_BASE_URL is missing!");
+            }
+
+            // Local endpoints like Ollama or LM Studio accept any API key.
+            return new OpenAIProvider(
+                env["OPENAI_API_KEY"] || "local",
+                chatModel,
+                imageModel,
+                baseURL,
+                temperature,
+                seed,
+            );
+        }
+        case "fake":
+            return new FakeProvider();
+        default:
+            throw new Error(`Unknown LLM_PROVIDER "${providerName}".`);
+    }
+}
@@ -0,0 +1,189 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+export interface ImageCacheEntry {
+    hash: string;
+    file: string;
+    prompt: string;
+    model: string;
+    size: string;
+    productName: string;
+    category: string;
+    kind: string;
+    createdAt: string;
+    lastUsedAt: string;
+}
+
+export interface ImageCacheLookup {
+    prompt: string;
+    model: string;
+    size: string;
+    productName: string;
+    category: string;
+    kind: string;
+}
+
+export interface ImageCachePruneOptions {
+    olderThanDays?: number;
+    category?: string;
+}
+
+// Images are stored by a hash of everything that influences them, so a changed prompt or model
+// creates a new image instead of reusing an outdated one.
+export class ImageCache {
+    public readonly cacheDir: string;
+    public readonly manifestPath: string;
+    public readonly reuseByProduct: boolean;
+
+    private entries: Record<string, ImageCacheEntry> = {};
+
+    constructor(cacheDir = "./generatedImages", reuseByProduct = false) {
+        this.cacheDir = cacheDir;
+        this.manifestPath = path.join(cacheDir, "manifest.json");
+        this.reuseByProduct = reuseByProduct;
+
+        if (!fs.existsSync(this.cacheDir)) {
+            try {
+                fs.mkdirSync(this.cacheDir, { recursive: true });
+            } catch (err) {
+                console.error(err);
+            }
+        }
+
+        this.loadManifest();
+    }
+
+    getHash(prompt: string, model: string, size: string) {
+        return crypto
+            .createHash("sha256")
+            .update(JSON.stringify({ prompt: prompt, model: model, size: size }))
+            .digest("hex");
+    }
+
+    get(lookup: ImageCacheLookup) {
+        let entry = this.entries[this.getHash(lookup.prompt, lookup.model, lookup.size)];
+
+        // Reuses the latest image of the same product, even if it was generated for another
+        // category or with another prompt.
+        if (!entry && this.reuseByProduct) {
+            entry = this.list()
+                .reverse()
+                .find(
+                    (candidate) =>
+                        candidate.productName === lookup.productName &&
+                        candidate.kind === lookup.kind,
+                );
+        }
+
+        if (!entry) {
+            return null;
+        }
+
+        const imagePath = path.join(this.cacheDir, entry.file);
+
+        if (!fs.existsSync(imagePath)) {
+            delete this.entries[entry.hash];
+            this.saveManifest();
+            return null;
+        }
+
+        entry.lastUsedAt = new Date().toISOString();
+        this.saveManifest();
+
+        return fs.readFileSync(imagePath, { encoding: "base64" });
+    }
+
+    put(lookup: ImageCacheLookup, imageBase64: string) {
+        const hash = this.getHash(lookup.prompt, lookup.model, lookup.size);
+        const file = `${hash}.png`;
+        const now = new Date().toISOString();
+
+        try {
+            fs.writeFileSync(path.join(this.cacheDir, file), imageBase64, "base64");
+        } catch (err) {
+            console.error(err);
+            return;
+        }
+
+        this.entries[hash] = {
+            hash: hash,
+            file: file,
+            prompt: lookup.prompt,
+            model: lookup.model,
+            size: lookup.size,
+            productName: lookup.productName,
+            category: lookup.category,
+            kind: lookup.kind,
+            createdAt: now,
+            lastUsedAt: now,
+        };
+
+        this.saveManifest();
+    }
+
+    list(category?: string) {
+        return Object.values(this.entries)
+            .filter((entry) => !category || entry.category === category)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    // Without options, only files without a manifest entry and entries without a file are removed.
+    prune(options: ImageCachePruneOptions = {}) {
+        const hasFilter = options.olderThanDays !== undefined || options.category !== undefined;
+        const unusedSince =
+            options.olderThanDays !== undefined
+                ? Date.now() - options.olderThanDays * 24 * 60 * 60 * 1000
+                : null;
+
+        const prunedEntries = Object.values(this.entries).filter((entry) => {
+            if (!fs.existsSync(path.join(this.cacheDir, entry.file))) {
+                return true;
+            }
+
+            return (
+                hasFilter &&
+                (unusedSince === null || new Date(entry.lastUsedAt).getTime() < unusedSince) &&
+                (options.category === undefined || entry.category === options.category)
+            );
+        });
+
+        prunedEntries.forEach((entry) => {
+            fs.rmSync(path.join(this.cacheDir, entry.file), { force: true });
+            delete this.entries[entry.hash];
+        });
+
+        const knownFiles = new Set(Object.values(this.entries).map((entry) => entry.file));
+        const orphanedFiles = fs
+            .readdirSync(this.cacheDir)
+            .filter((file) => file.endsWith(".png") && !knownFiles.has(file));
+
+        orphanedFiles.forEach((file) => {
+            fs.rmSync(path.join(this.cacheDir, file), { force: true });
+        });
+
+        this.saveManifest();
+
+        return prunedEntries.length + orphanedFiles.length;
+    }
+
+    private loadManifest() {
+        if (!fs.existsSync(this.manifestPath)) {
+            return;
+        }
+
+        try {
+            this.entries = JSON.parse(fs.readFileSync(this.manifestPath, "utf-8"));
+        } catch (err) {
+            console.error(err);
+        }
+    }
+
+    private saveManifest() {
+        try {
+            fs.writeFileSync(this.manifestPath, JSON.stringify(this.entries, null, 4));
+        } catch (err) {
+            console.error(err);
+        }
+    }
+}
@@ -0,0 +1,63 @@
+import sharp from "sharp";
+import { getEnvNumber } from "./env.js";
+
+export type ImageFormat = "webp" | "jpeg" | "png";
+
+const IMAGE_FORMATS: ImageFormat[] = ["webp", "jpeg", "png"];
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+    webp: "image/webp",
+    jpeg: "image/jpeg",
+    png: "image/png",
+};
+
+export interface ProcessedImage {
+    data: Buffer;
+    extension: string;
+    mimeType: string;
+}
+
+// Scales and converts generated images before they are uploaded, so the storefront gets
+// images of a realistic size instead of the full-size PNGs of the generation provider.
+export class ImageProcessor {
+    public readonly format: ImageFormat;
+    public readonly maxSize: number;
+    public readonly quality: number;
+
+    constructor(format: ImageFormat = "webp", maxSize = 1024, quality = 80) {
+        this.format = format;
+        this.maxSize = maxSize;
+        this.quality = quality;
+    }
+
+    static fromEnv(env: Record<string, string | undefined>) {
+        const format = (env["IMAGE_FORMAT"] || "webp") as ImageFormat;
+
+        if (!IMAGE_FORMATS.includes(format)) {
+            throw new Error(`Unknown IMAGE_FORMAT "${format}".`);
+        }
+
+        return new ImageProcessor(
+            format,
+            getEnvNumber(env, "IMAGE_MAX_SIZE", 1024, true, 1),
+            getEnvNumber(env, "IMAGE_QUALITY", 80, true, 1, 100),
+        );
+    }
+
+    async process(imageBase64: string): Promise<ProcessedImage> {
+        const image = sharp(Buffer.from(imageBase64, "base64")).resize({
+            width: this.maxSize,
+            height: this.maxSize,
+            fit: "inside",
+            withoutEnlargement: true,
+        });
+
+        const data = await image.toFormat(this.format, { quality: this.quality }).toBuffer();
+
+        return {
+            data: data,
+            extension: this.format === "jpeg" ? "jpg" : this.format,
+            mimeType: MIME_TYPES[this.format],
+        };
+    }
+}
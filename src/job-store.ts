@@ -0,0 +1,203 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { EventEmitter } from "node:events";
+import type { GenerationPhase } from "./generation-pipeline.js";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export type JobPhase = "queued" | GenerationPhase | "done";
+
+export interface Job {
+    id: string;
+    status: JobStatus;
+    phase: JobPhase;
+    progress: {
+        productsDone: number;
+        productsTotal: number;
+        imagesDone: number;
+        imagesTotal: number;
+    };
+    errors: string[];
+    result: Record<string, any> | null;
+    params: Record<string, any>;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Finished jobs are kept for a day by default, so their results can still be fetched.
+export const DEFAULT_FINISHED_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class JobStore extends EventEmitter {
+    public readonly storeDir: string | null;
+    public readonly finishedJobTtlMs: number;
+
+    private jobs: Map<string, Job> = new Map();
+
+    constructor(storeDir: string | null = null, finishedJobTtlMs = DEFAULT_FINISHED_JOB_TTL_MS) {
+        super();
+
+        this.storeDir = storeDir;
+        this.finishedJobTtlMs = finishedJobTtlMs;
+
+        // Every client of the event stream of a job listens for its updates.
+        this.setMaxListeners(0);
+
+        if (this.storeDir) {
+            this.loadJobs();
+        }
+    }
+
+    create(params: Record<string, any>) {
+        this.evictFinishedJobs();
+
+        const now = new Date().toISOString();
+
+        const job: Job = {
+            id: crypto.randomUUID(),
+            status: "queued",
+            phase: "queued",
+            progress: {
+                productsDone: 0,
+                productsTotal: 0,
+                imagesDone: 0,
+                imagesTotal: 0,
+            },
+            errors: [],
+            result: null,
+            params: params,
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        this.jobs.set(job.id, job);
+        this.persist(job);
+
+        return job;
+    }
+
+    get(id: string) {
+        return this.jobs.get(id);
+    }
+
+    list() {
+        this.evictFinishedJobs();
+
+        return [...this.jobs.values()];
+    }
+
+    // Updates are emitted per job, so a listener only gets the updates of its own job.
+    subscribe(id: string, listener: (job: Job) => void) {
+        this.on(`update:${id}`, listener);
+
+        return () => {
+            this.off(`update:${id}`, listener);
+        };
+    }
+
+    update(id: string, changes: Partial<Omit<Job, "id" | "createdAt">>) {
+        const job = this.jobs.get(id);
+
+        if (!job) {
+            return undefined;
+        }
+
+        Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+
+        this.persist(job);
+        this.emit(`update:${job.id}`, job);
+
+        return job;
+    }
+
+    updateProgress(id: string, progress: Partial<Job["progress"]>) {
+        const job = this.jobs.get(id);
+
+        if (!job) {
+            return undefined;
+        }
+
+        return this.update(id, { progress: { ...job.progress, ...progress } });
+    }
+
+    addError(id: string, error: unknown) {
+        const job = this.jobs.get(id);
+
+        if (!job) {
+            return undefined;
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+
+        return this.update(id, { errors: [...job.errors, message] });
+    }
+
+    isFinished(job: Job) {
+        return job.status === "completed" || job.status === "failed";
+    }
+
+    // Finished jobs are removed once their time to live is over, including their files.
+    evictFinishedJobs(now = Date.now()) {
+        this.jobs.forEach((job) => {
+            if (
+                this.isFinished(job) &&
+                now - new Date(job.updatedAt).getTime() > this.finishedJobTtlMs
+            ) {
+                this.jobs.delete(job.id);
+
+                if (this.storeDir) {
+                    fs.rmSync(path.join(this.storeDir, `${job.id}.json`), { force: true });
+                }
+            }
+        });
+    }
+
+    private persist(job: Job) {
+        if (!this.storeDir) {
+            return;
+        }
+
+        try {
+            fs.writeFileSync(
+                path.join(this.storeDir, `${job.id}.json`),
+                JSON.stringify(job, null, 4),
+            );
+        } catch (err) {
+            console.error(err);
+        }
+    }
+
+    private loadJobs() {
+        if (!this.storeDir) {
+            return;
+        }
+
+        if (!fs.existsSync(this.storeDir)) {
+            fs.mkdirSync(this.storeDir, { recursive: true });
+            return;
+        }
+
+        fs.readdirSync(this.storeDir)
+            .filter((file) => file.endsWith(".json"))
+            .forEach((file) => {
+                try {
+                    const job: Job = JSON.parse(
+                        fs.readFileSync(path.join(this.storeDir as string, file), "utf-8"),
+                    );
+
+                    // Jobs that were still active when the server stopped can't be resumed.
+                    if (!this.isFinished(job)) {
+                        job.status = "failed";
+                        job.errors.push("Job was interrupted by a server restart.");
+                        this.persist(job);
+                    }
+
+                    this.jobs.set(job.id, job);
+                } catch (err) {
+                    console.error(err);
+                }
+            });
+
+        this.evictFinishedJobs();
+    }
+}
@@ -1,30 +1,831 @@
+import fs from "node:fs";
+import { parseArgs } from "node:util";
 import { DataHydrator } from "./data-hydrator.js";
 import { DataGenerator } from "./data-generator.js";
+import { DataValidator } from "./data-validator.js";
+import { DatasetStore } from "./dataset.js";
+import { getEnvNumber } from "./env.js";
+import { ImageCache } from "./image-cache.js";
+import { ImageProcessor } from "./image-processor.js";
+import {
+    DEFAULT_GENERATION_OPTIONS,
+    type GenerationOptions,
+    GenerationPipeline,
+    type GenerationReport,
+} from "./generation-pipeline.js";
+import { createGenerationProvider } from "./generation-provider.js";
+import { RunStore } from "./run-store.js";
+import { readScenario, type ScenarioReport, ScenarioRunner } from "./scenario.js";
+import { TaskRunner } from "./task-runner.js";
+import { formatUsage, type UsageTotals, UsageTracker } from "./usage-tracker.js";
 
-const openAiApiKey = process.env["OPENAI_API_KEY"];
+const EXIT_SUCCESS = 0;
+const EXIT_ERROR = 1;
+const EXIT_USAGE = 2;
+const EXIT_PARTIAL = 3;
 
-const swEnvUrl = process.env["SW_ENV_URL"];
-const clientId = process.env["SW_CLIENT_ID"];
-const clientSecret = process.env["SW_CLIENT_SECRET"];
+interface CliOption {
+    type: "string" | "boolean";
+    short?: string;
+    value?: string;
+    description: string;
+}
+
+type CliValues = Record<string, string | boolean | undefined>;
+
+interface CliCommand {
+    arguments: string;
+    description: string;
+    options: Record<string, CliOption>;
+    run: (values: CliValues, positionals: string[]) => Promise<number>;
+}
+
+class UsageError extends Error {}
+
+const GLOBAL_OPTIONS: Record<string, CliOption> = {
+    output: {
+        type: "string",
+        short: "o",
+        value: "<file>",
+        description: "Writes a JSON report of the command to the file",
+    },
+    verbose: {
+        type: "boolean",
+        short: "v",
+        description: "Prints the usage per phase and stack traces of errors",
+    },
+    quiet: { type: "boolean", short: "q", description: "Only prints warnings and errors" },
+    help: { type: "boolean", short: "h", description: "Shows the help of the command" },
+};
+
+const ENVIRONMENT_OPTIONS: Record<string, CliOption> = {
+    "env-url": {
+        type: "string",
+        value: "<url>",
+        description: "URL of the Shopware environment (default: SW_ENV_URL)",
+    },
+    auth: {
+        type: "string",
+        value: "<client|user>",
+        description: "Authenticates as integration or admin user (default: client)",
+    },
+};
+
+const SALES_CHANNEL_OPTIONS: Record<string, CliOption> = {
+    "sales-channel": {
+        type: "string",
+        value: "<name>",
+        description: `Sales channel of the products (default: ${DEFAULT_GENERATION_OPTIONS.salesChannelName})`,
+    },
+};
+
+const VERIFICATION_OPTIONS: Record<string, CliOption> = {
+    verify: {
+        type: "boolean",
+        description: "Checks through the Store API that the products show up in the storefront",
+    },
+};
+
+const RECORDING_OPTIONS: Record<string, CliOption> = {
+    record: {
+        type: "string",
+        value: "<dir>",
+        description: "Records all responses of the generation provider to the directory",
+    },
+    replay: {
+        type: "string",
+        value: "<dir>",
+        description: "Replays the recorded responses instead of calling the provider",
+    },
+    temperature: {
+        type: "string",
+        value: "<value>",
+        description: "Temperature of the chat model (default: LLM_TEMPERATURE)",
+    },
+    seed: {
+        type: "string",
+        value: "<seed>",
+        description: "Seed of the chat model (default: LLM_SEED)",
+    },
+};
+
+const GENERATION_OPTIONS: Record<string, CliOption> = {
+    category: {
+        type: "string",
+        short: "c",
+        value: "<name>",
+        description: `Category of the products (default: ${DEFAULT_GENERATION_OPTIONS.category})`,
+    },
+    products: {
+        type: "string",
+        short: "p",
+        value: "<count>",
+        description: `Number of products (default: ${DEFAULT_GENERATION_OPTIONS.productCount})`,
+    },
+    "property-groups": {
+        type: "string",
+        value: "<count>",
+        description: `Number of property groups (default: ${DEFAULT_GENERATION_OPTIONS.propertyGroupCount})`,
+    },
+    "no-images": { type: "boolean", description: "Generates products without cover images" },
+    "no-reviews": { type: "boolean", description: "Generates products without reviews" },
+    "description-words": {
+        type: "string",
+        value: "<count>",
+        description: `Minimum words of a description (default: ${DEFAULT_GENERATION_OPTIONS.descriptionWordCount})`,
+    },
+    "additional-information": {
+        type: "string",
+        value: "<text>",
+        description: "Context for the descriptions and images of the products",
+    },
+    "gallery-images": {
+        type: "string",
+        value: "<count>",
+        description: "Additional images per product (default: 0)",
+    },
+    "variant-groups": {
+        type: "string",
+        value: "<count>",
+        description: "Property groups used for variant products (default: 0)",
+    },
+    "variant-images": { type: "boolean", description: "Generates an image for each variant" },
+    "category-depth": {
+        type: "string",
+        value: "<levels>",
+        description: "Levels of a generated category tree (default: 0)",
+    },
+    "cross-selling": {
+        type: "boolean",
+        description: "Links similar products, accessories and products bought together",
+    },
+    "landing-page": {
+        type: "boolean",
+        description: "Generates a Shopping Experiences landing page for the category",
+    },
+    locales: {
+        type: "string",
+        value: "<locales>",
+        description: "Comma-separated locales to translate to, e.g. de-DE,nl-NL",
+    },
+    budget: {
+        type: "string",
+        value: "<usd>",
+        description: "Stops generating when the costs reach the budget",
+    },
+    "dry-run": { type: "boolean", description: "Only prints the usage estimate" },
+    "reuse-images": {
+        type: "boolean",
+        description: "Reuses cached images of products with the same name",
+    },
+    ...RECORDING_OPTIONS,
+};
+
+const CUSTOMER_OPTIONS: Record<string, CliOption> = {
+    customers: {
+        type: "string",
+        value: "<count>",
+        description: "Number of customers (default: 0)",
+    },
+    orders: {
+        type: "string",
+        value: "<count>",
+        description: "Number of orders of the generated customers (default: 0)",
+    },
+    "order-days": {
+        type: "string",
+        value: "<days>",
+        description: `Days the orders are spread over (default: ${DEFAULT_GENERATION_OPTIONS.orderPeriodDays})`,
+    },
+};
+
+const PROMOTION_OPTIONS: Record<string, CliOption> = {
+    promotions: {
+        type: "string",
+        value: "<count>",
+        description: "Number of promotions with discount codes (default: 0)",
+    },
+};
+
+const COMMANDS: Record<string, CliCommand> = {
+    generate: {
+        arguments: "",
+        description: "Generates data and writes it to a Shopware environment.",
+        options: {
+            ...GENERATION_OPTIONS,
+            ...PROMOTION_OPTIONS,
+            ...CUSTOMER_OPTIONS,
+            ...SALES_CHANNEL_OPTIONS,
+            ...VERIFICATION_OPTIONS,
+            ...ENVIRONMENT_OPTIONS,
+        },
+        run: runGenerate,
+    },
+    export: {
+        arguments: "<dataset-dir>",
+        description: "Generates data and exports it to a dataset directory.",
+        options: GENERATION_OPTIONS,
+        run: runExport,
+    },
+    scenario: {
+        arguments: "<scenario-file>",
+        description: "Generates all categories of a JSON or YAML scenario file.",
+        options: {
+            budget: GENERATION_OPTIONS["budget"] as CliOption,
+            "dry-run": GENERATION_OPTIONS["dry-run"] as CliOption,
+            "reuse-images": GENERATION_OPTIONS["reuse-images"] as CliOption,
+            ...RECORDING_OPTIONS,
+            ...ENVIRONMENT_OPTIONS,
+        },
+        run: runScenario,
+    },
+    hydrate: {
+        arguments: "<dataset-dir>",
+        description: "Writes an exported dataset to a Shopware environment.",
+        options: { ...SALES_CHANNEL_OPTIONS, ...VERIFICATION_OPTIONS, ...ENVIRONMENT_OPTIONS },
+        run: runHydrate,
+    },
+    clean: {
+        arguments: "<run-id>",
+        description: "Removes everything a run created from its environment.",
+        options: { auth: ENVIRONMENT_OPTIONS["auth"] as CliOption },
+        run: runClean,
+    },
+    "list-runs": {
+        arguments: "",
+        description: "Lists the recorded runs.",
+        options: {},
+        run: runListRuns,
+    },
+    "image-cache": {
+        arguments: "<list|prune>",
+        description: "Lists or prunes the cached images.",
+        options: {
+            category: {
+                type: "string",
+                short: "c",
+                value: "<name>",
+                description: "Only lists or prunes images of the category",
+            },
+            "older-than-days": {
+                type: "string",
+                value: "<days>",
+                description: "Prunes images that weren't used for the number of days",
+            },
+        },
+        run: runImageCache,
+    },
+};
+
+let verbose = false;
+let outputFile: string | null = null;
+
+function getUsage() {
+    const commands = Object.entries(COMMANDS).map(
+        ([name, command]) => `  ${`${name} ${command.arguments}`.padEnd(28)}${command.description}`,
+    );
+
+    return [
+        "Usage: npm run cli -- <command> [options]",
+        "",
+        "Commands:",
+        ...commands,
+        "",
+        'Run "npm run cli -- <command> --help" for the options of a command.',
+    ].join("\n");
+}
+
+function getCommandUsage(name: string, command: CliCommand) {
+    const options = Object.entries({ ...command.options, ...GLOBAL_OPTIONS }).map(
+        ([optionName, option]) => {
+            const flag = `${option.short ? `-${option.short}, ` : "    "}--${optionName} ${option.value ?? ""}`;
+
+            return `  ${flag.padEnd(38)}${option.description}`;
+        },
+    );
+
+    return [
+        `Usage: npm run cli -- ${[name, command.arguments].filter(Boolean).join(" ")} [options]`,
+        "",
+        command.description,
+        "",
+        "Options:",
+        ...options,
+    ].join("\n");
+}
+
+function getString(values: CliValues, name: string) {
+    const value = values[name];
+
+    return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function getNumber(values: CliValues, name: string, defaultValue: number, integer = true, min = 0) {
+    const value = getString(values, name);
+
+    if (value === undefined) {
+        return defaultValue;
+    }
+
+    const number = Number(value);
+
+    if (isNaN(number) || number < min || (integer && !Number.isInteger(number))) {
+        throw new UsageError(
+            min > 0
+                ? `--${name} must be ${integer ? "an integer" : "a number"} of at least ${min}.`
+                : `--${name} must be a positive ${integer ? "integer" : "number"}.`,
+        );
+    }
+
+    return number;
+}
+
+function getGenerationOptions(values: CliValues): GenerationOptions {
+    const defaults = DEFAULT_GENERATION_OPTIONS;
+
+    return {
+        category: getString(values, "category") ?? defaults.category,
+        productCount: getNumber(values, "products", defaults.productCount),
+        propertyGroupCount: getNumber(
+            values,
+            "property-groups",
+            defaults.propertyGroupCount,
+            true,
+            1,
+        ),
+        generateImages: values["no-images"] !== true,
+        generateReviews: values["no-reviews"] !== true,
+        descriptionWordCount: getNumber(values, "description-words", defaults.descriptionWordCount),
+        additionalInformation:
+            getString(values, "additional-information") ?? defaults.additionalInformation,
+        galleryImageCount: getNumber(values, "gallery-images", defaults.galleryImageCount),
+        variantGroupCount: getNumber(values, "variant-groups", defaults.variantGroupCount),
+        variantImages: values["variant-images"] === true,
+        categoryDepth: getNumber(values, "category-depth", defaults.categoryDepth),
+        crossSelling: values["cross-selling"] === true,
+        landingPage: values["landing-page"] === true,
+        locales: (getString(values, "locales") ?? "")
+            .split(",")
+            .map((locale) => locale.trim())
+            .filter((locale) => locale.length > 0),
+        promotionCount: getNumber(values, "promotions", defaults.promotionCount),
+        customerCount: getNumber(values, "customers", defaults.customerCount),
+        orderCount: getNumber(values, "orders", defaults.orderCount),
+        orderPeriodDays: getNumber(values, "order-days", defaults.orderPeriodDays),
+        salesChannelName: getString(values, "sales-channel") ?? defaults.salesChannelName,
+        verify: values["verify"] === true,
+    };
+}
+
+function getPositional(positionals: string[], name: string) {
+    const value = positionals[0];
 
-const category = process.env["npm_config_category"] || "soft drinks";
-const productCount = parseInt(process.env["npm_config_products"] || "10", 10);
+    if (!value) {
+        throw new UsageError(`Missing argument <${name}>.`);
+    }
 
-if (!openAiApiKey) {
-    throw new Error("OPENAI_API_KEY is missing!");
+    return value;
 }
 
-if (!swEnvUrl) {
-    throw new Error("SW_ENV_URL is missing!");
+function createDataHydrator() {
+    return new DataHydrator(
+        TaskRunner.fromEnv(process.env, "SHOPWARE_CONCURRENCY"),
+        getEnvNumber(process.env, "SHOPWARE_SYNC_BATCH_SIZE", 100, true, 1),
+        ImageProcessor.fromEnv(process.env),
+    );
 }
 
-const dataHydrator = new DataHydrator();
-const dataGenerator = new DataGenerator(openAiApiKey);
+// The recording options override the env variables of the generation provider.
+function getProviderEnv(values: CliValues) {
+    const env = { ...process.env };
+    const recordDir = getString(values, "record");
+    const replayDir = getString(values, "replay");
+
+    if (recordDir && replayDir) {
+        throw new UsageError("--record and --replay can't be combined.");
+    }
+
+    if (recordDir || replayDir) {
+        env["LLM_RECORDING"] = recordDir ? "record" : "replay";
+        env["LLM_RECORDING_DIR"] = recordDir ?? replayDir;
+    }
+
+    if (getString(values, "temperature")) {
+        env["LLM_TEMPERATURE"] = `${getNumber(values, "temperature", 0, false)}`;
+    }
+
+    if (getString(values, "seed")) {
+        env["LLM_SEED"] = `${getNumber(values, "seed", 0)}`;
+    }
+
+    return env;
+}
+
+function createPipeline(values: CliValues, defaultBudget: number | null = null) {
+    const provider = createGenerationProvider(getProviderEnv(values));
+    const budget =
+        values["budget"] !== undefined ? getNumber(values, "budget", 0, false) : defaultBudget;
+
+    const dataGenerator = new DataGenerator(
+        provider,
+        new ImageCache(process.env["IMAGE_CACHE_DIR"], values["reuse-images"] === true),
+        TaskRunner.fromEnv(process.env, "LLM_CONCURRENCY"),
+        UsageTracker.forModels(provider.chatModel, provider.imageModel, process.env, budget),
+        DataValidator.fromEnv(process.env),
+    );
+
+    return new GenerationPipeline(dataGenerator, createDataHydrator());
+}
+
+async function authenticate(dataHydrator: DataHydrator, values: CliValues, envUrl?: string) {
+    const url = envUrl ?? getString(values, "env-url") ?? process.env["SW_ENV_URL"];
+    const auth = getString(values, "auth") ?? "client";
+
+    if (!url) {
+        throw new UsageError("Missing --env-url or SW_ENV_URL.");
+    }
+
+    let authSuccess;
+
+    if (auth === "client") {
+        authSuccess = await dataHydrator.authenticateWithClientCredentials(
+            url,
+            process.env["SW_CLIENT_ID"],
+            process.env["SW_CLIENT_SECRET"],
+        );
+    } else if (auth === "user") {
+        authSuccess = await dataHydrator.authenticateWithUserCredentials(
+            url,
+            process.env["SW_USER"] ?? "",
+            process.env["SW_PASSWORD"] ?? "",
+        );
+    } else {
+        throw new UsageError(`Unknown authentication mode "${auth}".`);
+    }
+
+    if (!authSuccess) {
+        throw new Error(`Authentication with ${url} failed.`);
+    }
+}
+
+function writeOutput(data: unknown) {
+    if (!outputFile) {
+        return;
+    }
+
+    fs.writeFileSync(outputFile, JSON.stringify(data, null, 4));
+    console.log(`Report written to ${outputFile}.`);
+}
+
+// Prints the estimate and tells whether the command should stop, because it's a dry run.
+function printDryRun(estimate: UsageTotals, values: CliValues, pipeline: GenerationPipeline) {
+    const budget = pipeline.dataGenerator?.usageTracker.budget ?? null;
+
+    console.log(`Estimated usage: ${formatUsage(estimate)}`);
+
+    if (budget !== null && estimate.cost > budget) {
+        console.warn(
+            `The estimate exceeds the budget of $${budget.toFixed(2)}, generation will stop early.`,
+        );
+    }
+
+    if (values["dry-run"]) {
+        console.log("Dry run, nothing was generated.");
+        writeOutput({ estimate: estimate, budget: budget });
+    }
+
+    return values["dry-run"] === true;
+}
+
+// Failed tasks and rejected entities don't abort a run, so they're summarized at the end.
+function printReport(report: GenerationReport | ScenarioReport) {
+    const usage = report.usage;
+    let failedCategories = 0;
+
+    if ("categories" in report) {
+        report.categories.forEach((category) => {
+            if (category.error) {
+                failedCategories++;
+                console.error(`- ${category.category} failed: ${category.error}`);
+            } else {
+                console.log(
+                    `- ${category.category}: ${category.products.length} products (run ${category.runId})`,
+                );
+            }
+        });
+
+        if (report.customerError) {
+            failedCategories++;
+            console.error(`- Customers and orders failed: ${report.customerError}`);
+        }
+    }
+
+    if (usage.total.requests > 0) {
+        console.log(`Usage: ${formatUsage(usage.total)}`);
+    }
+
+    if (verbose) {
+        Object.entries(usage.phases).forEach(([phase, totals]) => {
+            console.log(`- ${phase}: ${formatUsage(totals)}`);
+        });
+    }
+
+    if (usage.budgetExceeded) {
+        console.warn("The budget was exceeded, so not everything could be generated.");
+    }
+
+    if (report.replayMisses) {
+        console.warn(
+            `${report.replayMisses} prompt(s) weren't found in the recording, other responses were used.`,
+        );
+    }
+
+    const validation = report.validation;
+
+    if (validation.issues.length) {
+        console.log(
+            `Validation: ${validation.repaired} repaired, ${validation.regenerated} regenerated, ` +
+                `${validation.dropped} dropped`,
+        );
+    }
 
-await dataHydrator.authenticateWithClientCredentials(swEnvUrl, clientId, clientSecret);
+    validation.issues.forEach((issue) => {
+        if (verbose || issue.action === "dropped") {
+            console.warn(`- ${issue.action} ${issue.entity} ${issue.name}: ${issue.message}`);
+        }
+    });
 
-const propertyGroupsData = await dataGenerator.generatePropertyGroups(category);
-const propertyGroups = await dataHydrator.hydrateEnvWithPropertyGroups(propertyGroupsData);
+    if (report.failures.length) {
+        console.error(`${report.failures.length} task(s) failed:`);
+
+        report.failures.forEach((failure) => {
+            console.error(`- ${failure.task} (${failure.attempts} attempts): ${failure.error}`);
+        });
+    }
+
+    Object.entries(report.sync.written).forEach(([entity, count]) => {
+        console.log(`Written ${entity} entities: ${count}`);
+    });
+
+    if (report.sync.rejected.length) {
+        console.error(`${report.sync.rejected.length} entities were rejected by Shopware:`);
+
+        report.sync.rejected.forEach((rejection) => {
+            console.error(
+                `- ${rejection.entity} ${rejection.name}: ${rejection.errors.join(", ")}`,
+            );
+        });
+    }
+
+    if (report.sync.errors.length) {
+        console.error(`${report.sync.errors.length} errors of Shopware couldn't be assigned:`);
+
+        report.sync.errors.forEach((error) => console.error(`- ${error}`));
+    }
+
+    const verifications = (
+        "categories" in report
+            ? report.categories.map((category) => category.verification)
+            : [report.verification]
+    ).filter((verification) => verification !== null);
+
+    verifications.forEach((verification) => {
+        console.log(
+            `Verification in ${verification.salesChannel}: ${verification.passed} of ` +
+                `${verification.products.length} products passed`,
+        );
+
+        verification.errors.forEach((error) => console.error(`- ${error}`));
+        verification.products.forEach((product) => {
+            if (!product.passed) {
+                console.error(`- ${product.name}: ${product.errors.join(", ")}`);
+            }
+        });
+    });
+
+    const failedVerifications = verifications.filter(
+        (verification) => verification.failed || verification.errors.length,
+    ).length;
+
+    if ("runId" in report && report.runId) {
+        console.log(`Run id: ${report.runId}`);
+    }
+
+    writeOutput(report);
+
+    return failedCategories ||
+        failedVerifications ||
+        report.failures.length ||
+        report.sync.rejected.length ||
+        report.sync.errors.length
+        ? EXIT_PARTIAL
+        : EXIT_SUCCESS;
+}
+
+async function runGenerate(values: CliValues) {
+    const options = getGenerationOptions(values);
+    const pipeline = createPipeline(values);
+
+    if (printDryRun(pipeline.estimate(options), values, pipeline)) {
+        return EXIT_SUCCESS;
+    }
+
+    await authenticate(pipeline.dataHydrator, values);
+
+    return printReport(await pipeline.hydrate(options, new RunStore(process.env["RUN_LOG_DIR"])));
+}
+
+async function runExport(values: CliValues, positionals: string[]) {
+    const datasetDir = getPositional(positionals, "dataset-dir");
+    const options = getGenerationOptions(values);
+    const pipeline = createPipeline(values);
+
+    if (printDryRun(pipeline.estimate(options), values, pipeline)) {
+        return EXIT_SUCCESS;
+    }
+
+    const report = await pipeline.exportDataset(options, datasetDir);
+
+    console.log(`Dataset exported to ${datasetDir}.`);
+
+    return printReport(report);
+}
+
+async function runScenario(values: CliValues, positionals: string[]) {
+    const scenario = readScenario(getPositional(positionals, "scenario-file"));
+    const pipeline = createPipeline(values, scenario.budget ?? null);
+    const scenarioRunner = new ScenarioRunner(pipeline);
+
+    scenarioRunner.onCategory = (category, index, total) => {
+        console.log(`Scenario category ${index + 1} of ${total}: ${category}`);
+    };
+
+    if (printDryRun(scenarioRunner.estimate(scenario), values, pipeline)) {
+        return EXIT_SUCCESS;
+    }
+
+    await authenticate(pipeline.dataHydrator, values);
+
+    return printReport(
+        await scenarioRunner.run(scenario, new RunStore(process.env["RUN_LOG_DIR"])),
+    );
+}
+
+async function runHydrate(values: CliValues, positionals: string[]) {
+    const dataset = new DatasetStore(getPositional(positionals, "dataset-dir")).read();
+    const pipeline = new GenerationPipeline(null, createDataHydrator());
+
+    await authenticate(pipeline.dataHydrator, values);
+
+    return printReport(
+        await pipeline.importDataset(
+            dataset,
+            new RunStore(process.env["RUN_LOG_DIR"]),
+            getString(values, "sales-channel") ?? DEFAULT_GENERATION_OPTIONS.salesChannelName,
+            values["verify"] === true,
+        ),
+    );
+}
+
+async function runClean(values: CliValues, positionals: string[]) {
+    const runStore = new RunStore(process.env["RUN_LOG_DIR"]);
+    const runId = getPositional(positionals, "run-id");
+    const run = runStore.get(runId);
+
+    if (!run) {
+        throw new Error(`Run ${runId} not found.`);
+    }
+
+    const dataHydrator = createDataHydrator();
+
+    await authenticate(dataHydrator, values, run.envPath);
+    await dataHydrator.cleanRun(run);
+
+    run.cleanedAt = new Date().toISOString();
+    runStore.save(run);
+
+    console.log(`Run ${run.id} cleaned up.`);
+    writeOutput(run);
+
+    return EXIT_SUCCESS;
+}
+
+async function runListRuns() {
+    const runs = new RunStore(process.env["RUN_LOG_DIR"]).list();
+
+    runs.forEach((run) => {
+        const products = run.entities.product?.length ?? 0;
+        const state = run.cleanedAt ? "cleaned" : "active";
+
+        console.log(
+            `${run.id}  ${run.createdAt}  ${state.padEnd(7)}  ${run.category} (${products} products, ${run.envPath})`,
+        );
+    });
+
+    console.log(`${runs.length} runs.`);
+    writeOutput(runs);
+
+    return EXIT_SUCCESS;
+}
+
+async function runImageCache(values: CliValues, positionals: string[]) {
+    const action = getPositional(positionals, "list|prune");
+    const imageCache = new ImageCache(process.env["IMAGE_CACHE_DIR"]);
+    const category = getString(values, "category");
+
+    if (action === "list") {
+        const entries = imageCache.list(category);
+
+        entries.forEach((entry) => {
+            console.log(
+                `${entry.hash.slice(0, 12)}  ${entry.createdAt}  ${entry.category}  ${entry.productName} (${entry.kind}, ${entry.model})`,
+            );
+        });
+
+        console.log(`${entries.length} cached images.`);
+        writeOutput(entries);
+    } else if (action === "prune") {
+        const removedCount = imageCache.prune({
+            olderThanDays:
+                values["older-than-days"] !== undefined
+                    ? getNumber(values, "older-than-days", 0)
+                    : undefined,
+            category: category,
+        });
+
+        console.log(`${removedCount} cached images removed.`);
+        writeOutput({ removed: removedCount });
+    } else {
+        throw new UsageError(`Unknown image cache command "${action}".`);
+    }
+
+    return EXIT_SUCCESS;
+}
+
+async function main(args: string[]) {
+    const commandName = args[0];
+
+    if (
+        !commandName ||
+        commandName === "help" ||
+        commandName === "--help" ||
+        commandName === "-h"
+    ) {
+        console.log(getUsage());
+        return commandName ? EXIT_SUCCESS : EXIT_USAGE;
+    }
+
+    const command = COMMANDS[commandName];
+
+    if (!command) {
+        console.error(`Unknown command "${commandName}".\n\n${getUsage()}`);
+        return EXIT_USAGE;
+    }
+
+    const optionDefinitions = { ...command.options, ...GLOBAL_OPTIONS };
+
+    try {
+        const { values, positionals } = parseArgs({
+            args: args.slice(1),
+            options: Object.fromEntries(
+                Object.entries(optionDefinitions).map(([name, option]) => [
+                    name,
+                    option.short
+                        ? { type: option.type, short: option.short }
+                        : { type: option.type },
+                ]),
+            ),
+            allowPositionals: true,
+        });
+
+        if (values["help"]) {
+            console.log(getCommandUsage(commandName, command));
+            return EXIT_SUCCESS;
+        }
+
+        verbose = values["verbose"] === true;
+        outputFile = getString(values, "output") ?? null;
+
+        if (values["quiet"]) {
+            console.log = () => {};
+            console.info = () => {};
+        }
+
+        return await command.run(values, positionals);
+    } catch (e) {
+        if (
+            e instanceof UsageError ||
+            (e as NodeJS.ErrnoException).code?.startsWith("ERR_PARSE_ARGS")
+        ) {
+            console.error(
+                `${(e as Error).message}\nRun "npm run cli -- ${commandName} --help" for usage.`,
+            );
+            return EXIT_USAGE;
+        }
+
+        console.error(verbose ? e : `Error: ${e instanceof Error ? e.message : e}`);
+        return EXIT_ERROR;
+    }
+}
 
-const products = await dataGenerator.generateProducts(category, productCount, propertyGroups);
-await dataHydrator.hydrateEnvWithProducts(products, category);
+process.exitCode = await main(process.argv.slice(2));
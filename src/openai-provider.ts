@@ -0,0 +1,83 @@
+import OpenAI from "openai";
+import { zodResponseFormat } from "openai/helpers/zod";
+import type { z } from "zod";
+import type { GenerationProvider } from "./generation-provider.js";
+
+export class OpenAIProvider implements GenerationProvider {
+    public readonly name: string;
+    public readonly openAI: OpenAI;
+    public readonly chatModel: string;
+    public readonly imageModel: string;
+    public readonly temperature: number | null;
+    public readonly seed: number | null;
+
+    // A fixed temperature and seed make completions as repeatable as the API allows.
+    constructor(
+        apiKey: string,
+        chatModel: string,
+        imageModel: string,
+        baseURL?: string,
+        temperature: number | null = null,
+        seed: number | null = null,
+    ) {
+        if (!apiKey.length || apiKey.length <= 0) {
+            console.error("Missing API key for OpenAI.");
+        }
+
+        this.name = baseURL ? "openai-compatible" : "openai";
+        this.chatModel = chatModel;
+        this.imageModel = imageModel;
+        this.temperature = temperature;
+        this.seed = seed;
+
+        this.openAI = new OpenAI({
+            apiKey: apiKey,
+            baseURL: baseURL,
+            // Retries are done by the TaskRunner.
+            maxRetries: 0,
+        });
+    }
+
+    async completeStructured(prompt: string, schema: z.ZodTypeAny, schemaName: string) {
+        const completion = await this.openAI.chat.completions.create({
+            messages: [{ role: "system", content: prompt }],
+            model: this.chatModel,
+            response_format: zodResponseFormat(schema, schemaName),
+            temperature: this.temperature ?? undefined,
+            seed: this.seed ?? undefined,
+        });
+
+        const usage = completion.usage
+            ? {
+                  promptTokens: completion.usage.prompt_tokens,
+                  completionTokens: completion.usage.completion_tokens,
+              }
+            : null;
+
+        if (!completion.choices[0]?.message.content) {
+            return { data: null, usage: usage };
+        }
+
+        try {
+            return { data: JSON.parse(completion.choices[0].message.content), usage: usage };
+        } catch (e) {
+            console.error(e);
+            return { data: null, usage: usage };
+        }
+    }
+
+    async generateImage(prompt: string, size = "1024x1024") {
+        const imageResponse = await this.openAI.images.generate({
+            model: this.imageModel,
+            prompt: prompt,
+            size: size as OpenAI.Images.ImageGenerateParams["size"],
+            n: 1,
+        });
+
+        if (imageResponse.data[0] && imageResponse.data[0]["b64_json"]) {
+            return imageResponse.data[0]["b64_json"];
+        }
+
+        return null;
+    }
+}
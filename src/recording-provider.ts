@@ -0,0 +1,232 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import type { GenerationProvider, StructuredCompletion } from "./generation-provider.js";
+
+export const RECORDING_VERSION = 1;
+
+export type RecordingMode = "record" | "replay";
+
+const RecordingEntryDefinition = z.object({
+    key: z.string(),
+    type: z.enum(["completion", "image"]),
+    name: z.string(),
+    prompt: z.string(),
+    data: z.record(z.any()).nullable().optional(),
+    usage: z
+        .object({ promptTokens: z.number(), completionTokens: z.number() })
+        .nullable()
+        .optional(),
+    file: z.string().nullable().optional(),
+});
+
+export const RecordingManifestDefinition = z.object({
+    version: z.literal(RECORDING_VERSION),
+    chatModel: z.string(),
+    imageModel: z.string(),
+    createdAt: z.string(),
+    seed: z.number().int().nullable().optional(),
+    entries: z.array(RecordingEntryDefinition),
+});
+
+export type RecordingEntry = z.infer<typeof RecordingEntryDefinition>;
+export type RecordingManifest = z.infer<typeof RecordingManifestDefinition>;
+
+export class ReplayMissError extends Error {}
+
+// Records every response of a provider, or serves recorded responses without network access.
+// Requests are matched by their prompt first. Prompts can differ between runs, e.g. by the names
+// of products that were finished earlier, so the next response of the same schema is used then.
+// Such misses are counted, so a replay that drifted from its recording shows up in the report.
+// The seed is recorded as well, so the random values of the generated data are replayed too.
+export class RecordingProvider implements GenerationProvider {
+    public readonly name: string;
+    public readonly chatModel: string;
+    public readonly imageModel: string;
+    public readonly mode: RecordingMode;
+    public readonly recordingDir: string;
+    public readonly manifestPath: string;
+    public readonly skipImageCache: boolean;
+    public readonly seed: number | null;
+
+    public replayMisses = 0;
+
+    private provider: GenerationProvider | null;
+    private manifest: RecordingManifest;
+    private replayedEntries = new Set<RecordingEntry>();
+
+    constructor(
+        mode: RecordingMode,
+        recordingDir: string,
+        manifest: RecordingManifest,
+        provider: GenerationProvider | null,
+    ) {
+        this.name = mode === "record" ? `${provider?.name} (recording)` : "replay";
+        this.chatModel = manifest.chatModel;
+        this.imageModel = manifest.imageModel;
+        this.mode = mode;
+        this.recordingDir = recordingDir;
+        this.manifestPath = path.join(recordingDir, "recording.json");
+        this.manifest = manifest;
+        this.provider = provider;
+        this.seed = manifest.seed ?? null;
+
+        // Images from the cache never reach the provider, so they'd be missing in the recording.
+        this.skipImageCache = mode === "record";
+    }
+
+    // An existing recording in the directory is replaced. Only the files of a recording are
+    // removed, other directories are never recorded into.
+    static record(provider: GenerationProvider, recordingDir: string) {
+        const manifestPath = path.join(recordingDir, "recording.json");
+
+        if (
+            fs.existsSync(recordingDir) &&
+            fs.readdirSync(recordingDir).length &&
+            !fs.existsSync(manifestPath)
+        ) {
+            throw new Error(`${recordingDir} isn't empty and contains no recording.`);
+        }
+
+        fs.rmSync(manifestPath, { force: true });
+        fs.rmSync(path.join(recordingDir, "images"), { recursive: true, force: true });
+        fs.mkdirSync(path.join(recordingDir, "images"), { recursive: true });
+
+        // The manifest is written right away, so the directory can be recorded into again.
+        const recordingProvider = new RecordingProvider(
+            "record",
+            recordingDir,
+            {
+                version: RECORDING_VERSION,
+                chatModel: provider.chatModel,
+                imageModel: provider.imageModel,
+                createdAt: new Date().toISOString(),
+                seed: provider.seed ?? crypto.randomInt(2 ** 31),
+                entries: [],
+            },
+            provider,
+        );
+
+        recordingProvider.save();
+
+        return recordingProvider;
+    }
+
+    static replay(recordingDir: string) {
+        const manifestPath = path.join(recordingDir, "recording.json");
+
+        if (!fs.existsSync(manifestPath)) {
+            throw new Error(`No recording found at ${manifestPath}.`);
+        }
+
+        const rawManifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+
+        if (rawManifest.version !== RECORDING_VERSION) {
+            throw new Error(
+                `Unsupported recording version ${rawManifest.version}, expected ${RECORDING_VERSION}.`,
+            );
+        }
+
+        return new RecordingProvider(
+            "replay",
+            recordingDir,
+            RecordingManifestDefinition.parse(rawManifest),
+            null,
+        );
+    }
+
+    getKey(type: RecordingEntry["type"], name: string, prompt: string) {
+        return crypto
+            .createHash("sha256")
+            .update(JSON.stringify({ type: type, name: name, prompt: prompt }))
+            .digest("hex");
+    }
+
+    async completeStructured(
+        prompt: string,
+        schema: z.ZodTypeAny,
+        schemaName: string,
+    ): Promise<StructuredCompletion> {
+        if (!this.provider) {
+            const entry = this.replay("completion", schemaName, prompt);
+
+            return { data: entry.data ?? null, usage: entry.usage ?? null };
+        }
+
+        const completion = await this.provider.completeStructured(prompt, schema, schemaName);
+
+        this.addEntry({
+            key: this.getKey("completion", schemaName, prompt),
+            type: "completion",
+            name: schemaName,
+            prompt: prompt,
+            data: completion.data,
+            usage: completion.usage,
+        });
+
+        return completion;
+    }
+
+    async generateImage(prompt: string, size = "1024x1024") {
+        if (!this.provider) {
+            const entry = this.replay("image", size, prompt);
+
+            return entry.file
+                ? fs.readFileSync(path.join(this.recordingDir, entry.file), { encoding: "base64" })
+                : null;
+        }
+
+        const image = await this.provider.generateImage(prompt, size);
+        const key = this.getKey("image", size, prompt);
+        let file = null;
+
+        if (image) {
+            file = `images/${this.manifest.entries.length + 1}-${key}.png`;
+            fs.writeFileSync(path.join(this.recordingDir, file), image, "base64");
+        }
+
+        this.addEntry({ key: key, type: "image", name: size, prompt: prompt, file: file });
+
+        return image;
+    }
+
+    private replay(type: RecordingEntry["type"], name: string, prompt: string) {
+        const key = this.getKey(type, name, prompt);
+        const unusedEntries = this.manifest.entries.filter(
+            (entry) =>
+                entry.type === type && entry.name === name && !this.replayedEntries.has(entry),
+        );
+        let entry = unusedEntries.find((candidate) => candidate.key === key);
+
+        if (!entry) {
+            entry = unusedEntries[0];
+
+            if (!entry) {
+                throw new ReplayMissError(`No recorded ${type} response left for "${name}".`);
+            }
+
+            this.replayMisses++;
+            console.warn(
+                `No recorded ${type} response for this "${name}" prompt, using the next one.`,
+            );
+        }
+
+        this.replayedEntries.add(entry);
+
+        return entry;
+    }
+
+    private addEntry(entry: RecordingEntry) {
+        this.manifest.entries.push(entry);
+        this.save();
+    }
+
+    private save() {
+        try {
+            fs.writeFileSync(this.manifestPath, JSON.stringify(this.manifest, null, 4));
+        } catch (err) {
+            console.error(err);
+        }
+    }
+}
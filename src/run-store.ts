@@ -0,0 +1,110 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { UsageSummary } from "./usage-tracker.js";
+
+export type RunEntityName =
+    | "tag"
+    | "category"
+    | "property_group"
+    | "property_group_option"
+    | "product_manufacturer"
+    | "product"
+    | "product_review"
+    | "product_cross_selling"
+    | "media"
+    | "cms_page"
+    | "customer"
+    | "promotion"
+    | "rule"
+    | "order";
+
+export interface Run {
+    id: string;
+    envPath: string;
+    category: string;
+    tagId: string | null;
+    entities: Partial<Record<RunEntityName, string[]>>;
+    usage?: UsageSummary;
+    createdAt: string;
+    cleanedAt: string | null;
+}
+
+export class RunStore {
+    public readonly storeDir: string;
+
+    constructor(storeDir = "./runs") {
+        this.storeDir = storeDir;
+
+        if (!fs.existsSync(this.storeDir)) {
+            try {
+                fs.mkdirSync(this.storeDir, { recursive: true });
+            } catch (err) {
+                console.error(err);
+            }
+        }
+    }
+
+    create(envPath: string, category: string) {
+        const run: Run = {
+            id: crypto.randomUUID().replace(/-/g, ""),
+            envPath: envPath,
+            category: category,
+            tagId: null,
+            entities: {},
+            createdAt: new Date().toISOString(),
+            cleanedAt: null,
+        };
+
+        this.save(run);
+
+        return run;
+    }
+
+    get(id: string): Run | undefined {
+        const runPath = this.getRunPath(id);
+
+        if (!fs.existsSync(runPath)) {
+            return undefined;
+        }
+
+        return JSON.parse(fs.readFileSync(runPath, "utf-8"));
+    }
+
+    list(): Run[] {
+        return fs
+            .readdirSync(this.storeDir)
+            .filter((file) => file.endsWith(".json"))
+            .flatMap((file) => {
+                try {
+                    return [JSON.parse(fs.readFileSync(path.join(this.storeDir, file), "utf-8"))];
+                } catch (err) {
+                    console.error(err);
+                    return [];
+                }
+            })
+            .sort((a: Run, b: Run) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    record(run: Run, entity: RunEntityName, ids: string[]) {
+        run.entities[entity] = [...new Set([...(run.entities[entity] ?? []), ...ids])];
+        this.save(run);
+    }
+
+    save(run: Run) {
+        try {
+            fs.writeFileSync(this.getRunPath(run.id), JSON.stringify(run, null, 4));
+        } catch (err) {
+            console.error(err);
+        }
+    }
+
+    private getRunPath(id: string) {
+        // Run ids are generated hex strings, anything else must not reach the file system.
+        if (!/^[a-f0-9]+$/.test(id)) {
+            throw new Error(`Invalid run id "${id}".`);
+        }
+
+        return path.join(this.storeDir, `${id}.json`);
+    }
+}
@@ -0,0 +1,246 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import type { SyncReport } from "./data-hydrator.js";
+import type { ValidationSummary } from "./data-validator.js";
+import {
+    DEFAULT_GENERATION_OPTIONS,
+    type GenerationOptions,
+    type GenerationPipeline,
+} from "./generation-pipeline.js";
+import type { RunStore } from "./run-store.js";
+import type { VerificationReport } from "./store-api-verifier.js";
+import type { TaskFailure } from "./task-runner.js";
+import type { UsageSummary, UsageTotals } from "./usage-tracker.js";
+
+const CountDefinition = z.number().int().nonnegative();
+
+export const ScenarioCategoryDefinition = z
+    .object({
+        name: z.string().min(1),
+        productCount: CountDefinition.default(DEFAULT_GENERATION_OPTIONS.productCount),
+        propertyGroupCount: CountDefinition.min(1).default(
+            DEFAULT_GENERATION_OPTIONS.propertyGroupCount,
+        ),
+        descriptionWordCount: CountDefinition.default(
+            DEFAULT_GENERATION_OPTIONS.descriptionWordCount,
+        ),
+        additionalInformation: z.string().default(""),
+        salesChannel: z.string().optional(),
+        generateImages: z.boolean().default(true),
+        generateReviews: z.boolean().default(true),
+        galleryImageCount: CountDefinition.default(0),
+        variantGroupCount: CountDefinition.default(0),
+        variantImages: z.boolean().default(false),
+        categoryDepth: CountDefinition.default(0),
+        crossSelling: z.boolean().default(false),
+        landingPage: z.boolean().default(false),
+        promotionCount: CountDefinition.default(0),
+        locales: z.array(z.string()).optional(),
+    })
+    .strict();
+
+// Settings on the top level apply to all categories, unless a category overrides them.
+export const ScenarioDefinition = z
+    .object({
+        name: z.string().default("Scenario"),
+        salesChannel: z.string().default(DEFAULT_GENERATION_OPTIONS.salesChannelName),
+        locales: z.array(z.string()).default([]),
+        budget: z.number().positive().optional(),
+        verify: z.boolean().default(false),
+        customerCount: CountDefinition.default(0),
+        orderCount: CountDefinition.default(0),
+        orderPeriodDays: CountDefinition.default(DEFAULT_GENERATION_OPTIONS.orderPeriodDays),
+        categories: z.array(ScenarioCategoryDefinition).min(1),
+    })
+    .strict();
+
+export type Scenario = z.infer<typeof ScenarioDefinition>;
+
+export interface ScenarioCategoryReport {
+    category: string;
+    runId: string | null;
+    propertyGroups: string[];
+    products: string[];
+    verification: VerificationReport | null;
+    error: string | null;
+}
+
+export interface ScenarioReport {
+    name: string;
+    categories: ScenarioCategoryReport[];
+    promotions: number;
+    customers: number;
+    orders: number;
+    sync: SyncReport;
+    failures: TaskFailure[];
+    customerError: string | null;
+    validation: ValidationSummary;
+    usage: UsageSummary;
+    replayMisses: number;
+}
+
+export function parseScenario(data: unknown): Scenario {
+    const result = ScenarioDefinition.safeParse(data);
+
+    if (!result.success) {
+        const issues = result.error.issues.map(
+            (issue) => `- ${issue.path.join(".") || "scenario"}: ${issue.message}`,
+        );
+
+        throw new Error(`Invalid scenario:\n${issues.join("\n")}`);
+    }
+
+    return result.data;
+}
+
+export function readScenario(scenarioPath: string) {
+    const content = fs.readFileSync(scenarioPath, "utf-8");
+    const extension = path.extname(scenarioPath).toLowerCase();
+
+    return parseScenario(
+        extension === ".yaml" || extension === ".yml" ? parseYaml(content) : JSON.parse(content),
+    );
+}
+
+export function getScenarioOptions(scenario: Scenario): GenerationOptions[] {
+    return scenario.categories.map((category) => ({
+        ...DEFAULT_GENERATION_OPTIONS,
+        category: category.name,
+        productCount: category.productCount,
+        propertyGroupCount: category.propertyGroupCount,
+        generateImages: category.generateImages,
+        generateReviews: category.generateReviews,
+        descriptionWordCount: category.descriptionWordCount,
+        additionalInformation: category.additionalInformation,
+        galleryImageCount: category.galleryImageCount,
+        variantGroupCount: category.variantGroupCount,
+        variantImages: category.variantImages,
+        categoryDepth: category.categoryDepth,
+        crossSelling: category.crossSelling,
+        landingPage: category.landingPage,
+        promotionCount: category.promotionCount,
+        locales: category.locales ?? scenario.locales,
+        salesChannelName: category.salesChannel ?? scenario.salesChannel,
+        verify: scenario.verify,
+    }));
+}
+
+// Customers and orders belong to the whole shop, so they're generated once after all categories.
+export function getScenarioCustomerOptions(scenario: Scenario): GenerationOptions {
+    return {
+        ...DEFAULT_GENERATION_OPTIONS,
+        customerCount: scenario.customerCount,
+        orderCount: scenario.orderCount,
+        orderPeriodDays: scenario.orderPeriodDays,
+        salesChannelName: scenario.salesChannel,
+    };
+}
+
+export class ScenarioRunner {
+    public readonly pipeline: GenerationPipeline;
+
+    public onCategory: ((category: string, index: number, total: number) => void) | null = null;
+
+    constructor(pipeline: GenerationPipeline) {
+        this.pipeline = pipeline;
+    }
+
+    // Customers are generated once, so they're estimated together with the first category.
+    estimate(scenario: Scenario): UsageTotals {
+        const estimates = getScenarioOptions(scenario).map((options, index) =>
+            this.pipeline.estimate(
+                index === 0 ? { ...options, customerCount: scenario.customerCount } : options,
+            ),
+        );
+
+        return estimates.reduce((sum, estimate) => ({
+            requests: sum.requests + estimate.requests,
+            promptTokens: sum.promptTokens + estimate.promptTokens,
+            completionTokens: sum.completionTokens + estimate.completionTokens,
+            images: sum.images + estimate.images,
+            cost: sum.cost + estimate.cost,
+        }));
+    }
+
+    // Every category gets its own run, so it can be cleaned up separately. A failed category
+    // doesn't stop the scenario, it's reported with its error instead.
+    async run(scenario: Scenario, runStore: RunStore): Promise<ScenarioReport> {
+        const categoryOptions = getScenarioOptions(scenario);
+        const categories: ScenarioCategoryReport[] = [];
+        const productIds = new Set<string>();
+        const dataHydrator = this.pipeline.dataHydrator;
+
+        for (const [index, options] of categoryOptions.entries()) {
+            this.onCategory?.(options.category, index, categoryOptions.length);
+
+            // A category that fails before its run is started has no run of its own.
+            const previousRun = dataHydrator.run;
+            const getCategoryRun = () =>
+                dataHydrator.run !== previousRun ? dataHydrator.run : null;
+
+            try {
+                const report = await this.pipeline.hydrate(options, runStore);
+
+                categories.push({
+                    category: options.category,
+                    runId: report.runId,
+                    propertyGroups: report.propertyGroups,
+                    products: report.products,
+                    verification: report.verification,
+                    error: null,
+                });
+            } catch (e) {
+                console.error(e);
+
+                categories.push({
+                    category: options.category,
+                    runId: getCategoryRun()?.id ?? null,
+                    propertyGroups: [],
+                    products: [],
+                    verification: null,
+                    error: e instanceof Error ? e.message : String(e),
+                });
+            }
+
+            (getCategoryRun()?.entities.product ?? []).forEach((id) => productIds.add(id));
+        }
+
+        const customerOptions = getScenarioCustomerOptions(scenario);
+        let customerError: string | null = null;
+
+        // The customers are recorded in the last run that was started, their orders contain the
+        // products of all categories.
+        try {
+            const start = this.pipeline.getReport();
+            const customers = await this.pipeline.generateCustomers(customerOptions);
+
+            if (customers.length) {
+                this.pipeline.printValidation(start);
+            }
+
+            await this.pipeline.hydrateCustomers(customers, customerOptions, [...productIds]);
+        } catch (e) {
+            console.error(e);
+
+            customerError = e instanceof Error ? e.message : String(e);
+        }
+
+        const report = this.pipeline.getReport();
+
+        return {
+            name: scenario.name,
+            categories: categories,
+            promotions: report.promotions,
+            customers: report.customers,
+            orders: report.orders,
+            sync: report.sync,
+            failures: report.failures,
+            customerError: customerError,
+            validation: report.validation,
+            usage: report.usage,
+            replayMisses: report.replayMisses,
+        };
+    }
+}
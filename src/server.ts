@@ -1,98 +1,427 @@
 import express from "express";
+import { parse as parseYaml } from "yaml";
 import { DataHydrator } from "./data-hydrator.js";
 import { DataGenerator } from "./data-generator.js";
+import { DataValidator } from "./data-validator.js";
+import { getEnvNumber } from "./env.js";
+import { ImageCache } from "./image-cache.js";
+import { ImageProcessor } from "./image-processor.js";
+import { type Job, JobStore } from "./job-store.js";
+import {
+    DEFAULT_GENERATION_OPTIONS,
+    type GenerationOptions,
+    GenerationPipeline,
+    type GenerationReport,
+} from "./generation-pipeline.js";
+import { createGenerationProvider } from "./generation-provider.js";
+import { RunStore } from "./run-store.js";
+import { parseScenario, type ScenarioReport, ScenarioRunner } from "./scenario.js";
+import { TaskRunner } from "./task-runner.js";
+import { type UsageTotals, UsageTracker } from "./usage-tracker.js";
 
-const openAiApiKey = process.env["OPENAI_API_KEY"];
 const port = process.env["SERVER_PORT"] || 3000;
+const jobStoreDir = process.env["JOB_STORE_DIR"] || null;
+const syncBatchSize = getEnvNumber(process.env, "SHOPWARE_SYNC_BATCH_SIZE", 100, true, 1);
+const imageProcessor = ImageProcessor.fromEnv(process.env);
+const imageCache = new ImageCache(
+    process.env["IMAGE_CACHE_DIR"],
+    process.env["IMAGE_CACHE_REUSE"] === "true",
+);
 
-if (!openAiApiKey) {
-    throw new Error("OPENAI_API_KEY is missing!");
-}
-
-const dataHydrator = new DataHydrator();
-const dataGenerator = new DataGenerator(openAiApiKey);
+const generationProvider = createGenerationProvider(process.env);
+const jobStore = new JobStore(
+    jobStoreDir,
+    getEnvNumber(process.env, "JOB_TTL_HOURS", 24, false) * 60 * 60 * 1000,
+);
+const runStore = new RunStore(process.env["RUN_LOG_DIR"]);
 const app = express();
+const yamlContentTypes = ["application/yaml", "application/x-yaml", "text/yaml", "text/x-yaml"];
 
 app.use(express.json());
+app.use(express.text({ type: yamlContentTypes }));
 
 app.listen(port, () => {
     console.log(`Server started on port ${port}.`);
 });
 
-app.post("/generate", async (request, response) => {
+// Every job gets its own generator, so failures and usage are reported per job. Each job also
+// gets its own client, so parallel jobs against different shops don't share a login.
+function createPipeline(budget: number | null) {
+    const dataGenerator = new DataGenerator(
+        generationProvider,
+        imageCache,
+        TaskRunner.fromEnv(process.env, "LLM_CONCURRENCY"),
+        UsageTracker.forModels(
+            generationProvider.chatModel,
+            generationProvider.imageModel,
+            process.env,
+            budget,
+        ),
+        DataValidator.fromEnv(process.env),
+    );
+
+    const dataHydrator = new DataHydrator(
+        TaskRunner.fromEnv(process.env, "SHOPWARE_CONCURRENCY"),
+        syncBatchSize,
+        imageProcessor,
+    );
+
+    return new GenerationPipeline(dataGenerator, dataHydrator);
+}
+
+// Sends the error response itself if the request can't be authenticated.
+async function authenticateRequest(
+    request: express.Request,
+    response: express.Response,
+    dataHydrator: DataHydrator,
+) {
     const envPath = request.body["envPath"];
-    const productCategory = request.body["category"] || "soft drinks";
-    const productCount = request.body["productCount"] || 10;
-    const salesChannelName = request.body["salesChannel"] || "Storefront";
-    const additionalInformation = request.body["additionalInformation"] || "";
+    const shopwareUser = request.body["shopwareUser"];
+    const shopwarePassword = request.body["shopwarePassword"];
 
     if (!envPath) {
         response.status(500).send('Missing parameter "envPath".');
-        return;
+        return false;
     }
 
-    const shopwareUser = request.body["shopwareUser"];
-    const shopwarePassword = request.body["shopwarePassword"];
-
     if (!shopwareUser || !shopwarePassword) {
         response.status(500).send("Missing shopware login information.");
-        return;
+        return false;
     }
 
-    const authSuccess = await dataHydrator.authenticateWithUserCredentials(
-        envPath,
-        shopwareUser,
-        shopwarePassword,
-    );
+    let authSuccess = false;
+
+    try {
+        authSuccess = await dataHydrator.authenticateWithUserCredentials(
+            envPath,
+            shopwareUser,
+            shopwarePassword,
+        );
+    } catch (e) {
+        console.error(e);
+    }
 
     if (!authSuccess) {
         response.status(401).send("Authentication with the Shopware environment failed.");
-        return;
     }
 
-    let propertyGroups = null;
-    let products = [];
+    return authSuccess;
+}
+
+function startJob(
+    jobId: string,
+    pipeline: GenerationPipeline,
+    productsTotal: number,
+    generate: () => Promise<GenerationReport | ScenarioReport>,
+) {
+    runGenerationJob(jobId, pipeline, productsTotal, generate).catch((e) => {
+        console.error(e);
+        jobStore.addError(jobId, e);
+        jobStore.update(jobId, { status: "failed" });
+    });
+}
+
+function getJobResponse(jobId: string, estimate: UsageTotals) {
+    return {
+        jobId: jobId,
+        statusUrl: `/jobs/${jobId}`,
+        eventsUrl: `/jobs/${jobId}/events`,
+        estimate: estimate,
+    };
+}
+
+async function runGenerationJob(
+    jobId: string,
+    pipeline: GenerationPipeline,
+    productsTotal: number,
+    generate: () => Promise<GenerationReport | ScenarioReport>,
+) {
+    jobStore.update(jobId, {
+        status: "running",
+        phase: "propertyGroups",
+        progress: {
+            productsDone: 0,
+            productsTotal: productsTotal,
+            imagesDone: 0,
+            imagesTotal: productsTotal,
+        },
+    });
+
+    // The run id is known as soon as the run has started, scenarios start a run per category.
+    pipeline.onPhase = (phase) => {
+        const job = jobStore.get(jobId);
+        const runId = pipeline.dataHydrator.run?.id;
+
+        if (job && runId && job.params["runId"] !== runId) {
+            jobStore.update(jobId, { params: { ...job.params, runId: runId } });
+        }
+
+        jobStore.update(jobId, { phase: phase });
+    };
+
+    pipeline.onProgress = (phase, done, total) => {
+        if (phase === "products") {
+            jobStore.updateProgress(jobId, { productsDone: done, productsTotal: total });
+        } else {
+            jobStore.updateProgress(jobId, { imagesDone: done, imagesTotal: total });
+        }
+    };
+
+    let report;
 
     try {
-        const propertyGroupsData = await dataGenerator.generatePropertyGroups(productCategory);
-        propertyGroups = await dataHydrator.hydrateEnvWithPropertyGroups(propertyGroupsData);
+        report = await generate();
     } catch (e) {
         console.error(e);
-        response.status(500).send(e);
+        jobStore.addError(jobId, e);
+        jobStore.update(jobId, { status: "failed" });
         return;
     }
 
+    const rejected = report.sync.rejected;
+    const failedCategories =
+        "categories" in report ? report.categories.filter((category) => category.error) : [];
+
+    failedCategories.forEach((category) => {
+        jobStore.addError(jobId, `Category ${category.category} failed: ${category.error}`);
+    });
+
+    report.failures.forEach((failure) => {
+        jobStore.addError(jobId, `${failure.task}: ${failure.error}`);
+    });
+
+    rejected.forEach((rejection) => {
+        jobStore.addError(
+            jobId,
+            `${rejection.entity} ${rejection.name} was rejected: ${rejection.errors.join(", ")}`,
+        );
+    });
+
+    report.sync.errors.forEach((error) => {
+        jobStore.addError(jobId, error);
+    });
+
+    const problems = [
+        failedCategories.length ? `${failedCategories.length} failed categories` : null,
+        report.failures.length ? `${report.failures.length} failed task(s)` : null,
+        rejected.length ? `${rejected.length} rejected entities` : null,
+        report.sync.errors.length ? `${report.sync.errors.length} sync errors` : null,
+    ].filter((problem) => problem !== null);
+
+    jobStore.update(jobId, {
+        status: "completed",
+        phase: "done",
+        result: {
+            message: problems.length
+                ? `Products generated with ${problems.join(" and ")}.`
+                : "Products generated successfully.",
+            ...report,
+        },
+    });
+}
+
+app.post("/generate", async (request, response) => {
+    const envPath = request.body["envPath"];
+    const budget = typeof request.body["budget"] === "number" ? request.body["budget"] : null;
+    const options: GenerationOptions = {
+        ...DEFAULT_GENERATION_OPTIONS,
+        category: request.body["category"] || DEFAULT_GENERATION_OPTIONS.category,
+        productCount: request.body["productCount"] || DEFAULT_GENERATION_OPTIONS.productCount,
+        salesChannelName:
+            request.body["salesChannel"] || DEFAULT_GENERATION_OPTIONS.salesChannelName,
+        additionalInformation: request.body["additionalInformation"] || "",
+        variantGroupCount: request.body["variantGroupCount"] || 0,
+        variantImages: request.body["variantImages"] === true,
+        galleryImageCount: request.body["galleryImageCount"] || 0,
+        categoryDepth: request.body["categoryDepth"] || 0,
+        crossSelling: request.body["crossSelling"] === true,
+        landingPage: request.body["landingPage"] === true,
+        verify: request.body["verify"] === true,
+        promotionCount: request.body["promotionCount"] || 0,
+        customerCount: request.body["customerCount"] || 0,
+        orderCount: request.body["orderCount"] || 0,
+        orderPeriodDays:
+            request.body["orderPeriodDays"] || DEFAULT_GENERATION_OPTIONS.orderPeriodDays,
+        locales: Array.isArray(request.body["locales"]) ? request.body["locales"] : [],
+    };
+
+    const pipeline = createPipeline(budget);
+    const estimate = pipeline.estimate(options);
+
+    if (request.body["dryRun"] === true) {
+        response.status(200).type("application/json").send({ estimate: estimate, budget: budget });
+        return;
+    }
+
+    if (!(await authenticateRequest(request, response, pipeline.dataHydrator))) {
+        return;
+    }
+
+    // Credentials are deliberately not part of the stored job parameters.
+    const job = jobStore.create({ envPath: envPath, ...options, budget: budget });
+
+    startJob(job.id, pipeline, options.productCount, () => pipeline.hydrate(options, runStore));
+
+    response.status(202).type("application/json").send(getJobResponse(job.id, estimate));
+});
+
+app.post("/scenarios", async (request, response) => {
+    let scenario;
+
     try {
-        products = await dataGenerator.generateProducts(
-            productCategory,
-            productCount,
-            propertyGroups,
-            true,
-            true,
-            200,
-            additionalInformation,
+        // A YAML body contains the same fields as a JSON body.
+        if (request.is(yamlContentTypes)) {
+            request.body = parseYaml(request.body) ?? {};
+        }
+
+        const data = request.body["scenario"];
+
+        scenario = parseScenario(typeof data === "string" ? parseYaml(data) : data);
+    } catch (e) {
+        response.status(400).send(e instanceof Error ? e.message : String(e));
+        return;
+    }
+
+    const budget = typeof request.body["budget"] === "number" ? request.body["budget"] : null;
+    const pipeline = createPipeline(budget ?? scenario.budget ?? null);
+    const scenarioRunner = new ScenarioRunner(pipeline);
+    const estimate = scenarioRunner.estimate(scenario);
+
+    if (request.body["dryRun"] === true) {
+        response
+            .status(200)
+            .type("application/json")
+            .send({ estimate: estimate, budget: pipeline.dataGenerator?.usageTracker.budget });
+        return;
+    }
+
+    if (!(await authenticateRequest(request, response, pipeline.dataHydrator))) {
+        return;
+    }
+
+    const job = jobStore.create({ envPath: request.body["envPath"], scenario: scenario });
+    const productsTotal = scenario.categories.reduce(
+        (sum, category) => sum + category.productCount,
+        0,
+    );
+
+    startJob(job.id, pipeline, productsTotal, () => scenarioRunner.run(scenario, runStore));
+
+    response.status(202).type("application/json").send(getJobResponse(job.id, estimate));
+});
+
+app.get("/jobs", (request, response) => {
+    response.status(200).type("application/json").send(jobStore.list());
+});
+
+app.get("/jobs/:id", (request, response) => {
+    const job = jobStore.get(request.params.id);
+
+    if (!job) {
+        response.status(404).send("Job not found.");
+        return;
+    }
+
+    response.status(200).type("application/json").send(job);
+});
+
+app.get("/jobs/:id/events", (request, response) => {
+    const job = jobStore.get(request.params.id);
+
+    if (!job) {
+        response.status(404).send("Job not found.");
+        return;
+    }
+
+    response.status(200).set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+    });
+    response.flushHeaders();
+
+    const sendEvent = (updatedJob: Job) => {
+        response.write(`event: ${updatedJob.status}\n`);
+        response.write(`data: ${JSON.stringify(updatedJob)}\n\n`);
+    };
+
+    sendEvent(job);
+
+    if (jobStore.isFinished(job)) {
+        response.end();
+        return;
+    }
+
+    const unsubscribe = jobStore.subscribe(job.id, (updatedJob) => {
+        sendEvent(updatedJob);
+
+        if (jobStore.isFinished(updatedJob)) {
+            unsubscribe();
+            response.end();
+        }
+    });
+
+    request.on("close", unsubscribe);
+});
+
+app.get("/runs", (request, response) => {
+    response.status(200).type("application/json").send(runStore.list());
+});
+
+app.delete("/runs/:id", async (request, response) => {
+    let run;
+
+    try {
+        run = runStore.get(request.params.id);
+    } catch (e) {
+        response.status(400).send("Invalid run id.");
+        return;
+    }
+
+    if (!run) {
+        response.status(404).send("Run not found.");
+        return;
+    }
+
+    const shopwareUser = request.body?.["shopwareUser"];
+    const shopwarePassword = request.body?.["shopwarePassword"];
+
+    if (!shopwareUser || !shopwarePassword) {
+        response.status(500).send("Missing shopware login information.");
+        return;
+    }
+
+    const dataHydrator = new DataHydrator();
+    let authSuccess = false;
+
+    try {
+        authSuccess = await dataHydrator.authenticateWithUserCredentials(
+            run.envPath,
+            shopwareUser,
+            shopwarePassword,
         );
     } catch (e) {
         console.error(e);
-        response.status(500).send(e);
-        return;
     }
 
-    if (!products.length) {
-        response.status(500).send("No products could be generated.");
+    if (!authSuccess) {
+        response.status(401).send("Authentication with the Shopware environment failed.");
         return;
     }
 
     try {
-        await dataHydrator.hydrateEnvWithProducts(products, productCategory, salesChannelName);
+        await dataHydrator.cleanRun(run);
     } catch (e) {
         console.error(e);
         response.status(500).send(e);
         return;
     }
 
+    run.cleanedAt = new Date().toISOString();
+    runStore.save(run);
+
     response
         .status(200)
         .type("application/json")
-        .send({ message: "Products generated successfully." });
+        .send({ message: `Run ${run.id} cleaned up successfully.`, run: run });
 });
@@ -0,0 +1,202 @@
+import axios, { type AxiosInstance } from "axios";
+import { TaskRunner } from "./task-runner.js";
+
+// What a written product should look like in the storefront.
+export interface ExpectedProduct {
+    id: string;
+    name: string;
+    categoryId: string;
+    hasCover: boolean;
+    reviewCount: number;
+    propertyIds: string[];
+}
+
+export interface ProductVerification {
+    id: string;
+    name: string;
+    passed: boolean;
+    errors: string[];
+}
+
+export interface VerificationReport {
+    salesChannel: string;
+    passed: number;
+    failed: number;
+    errors: string[];
+    products: ProductVerification[];
+}
+
+// The Store API limits the page size, larger categories are read page by page.
+const PAGE_SIZE = 100;
+const MAX_LISTING_PAGES = 20;
+
+// Checks through the Store API of a sales channel that written products actually show up in the
+// storefront. Visibility, category assignment, media and the indexing can each fail silently.
+export class StoreApiVerifier {
+    public readonly storeApiClient: AxiosInstance;
+    public readonly salesChannel: Record<string, any>;
+    public readonly taskRunner: TaskRunner;
+
+    constructor(envPath: string, salesChannel: Record<string, any>, taskRunner = new TaskRunner()) {
+        this.salesChannel = salesChannel;
+        this.taskRunner = taskRunner;
+        this.storeApiClient = axios.create({
+            baseURL: `${envPath}/store-api/`,
+            headers: { "sw-access-key": salesChannel.accessKey },
+        });
+    }
+
+    async verifyProducts(products: ExpectedProduct[]): Promise<VerificationReport> {
+        console.log(`Verifying ${products.length} products through the Store API ...`);
+
+        const errors: string[] = [];
+
+        if (Array.isArray(this.salesChannel.domains) && !this.salesChannel.domains.length) {
+            errors.push(`Sales channel ${this.salesChannel.name} has no domain.`);
+        }
+
+        let storeProducts = new Map<string, Record<string, any>>();
+        let listedIds = new Set<string>();
+
+        try {
+            storeProducts = await this.getStoreProducts(products.map((product) => product.id));
+            listedIds = await this.getListedProductIds([
+                ...new Set(products.map((product) => product.categoryId)),
+            ]);
+        } catch (e) {
+            errors.push(`Store API request failed: ${e instanceof Error ? e.message : String(e)}`);
+        }
+
+        const reviewCounts = await this.taskRunner.run(
+            products,
+            async (product) =>
+                storeProducts.has(product.id) && product.reviewCount > 0
+                    ? await this.getReviewCount(product.id)
+                    : 0,
+            (product) => `Review check of product ${product.name}`,
+        );
+
+        const verifications = products.map((product, index) =>
+            this.verifyProduct(
+                product,
+                storeProducts.get(product.id),
+                listedIds,
+                reviewCounts[index],
+            ),
+        );
+        const passed = verifications.filter((verification) => verification.passed).length;
+
+        console.log(`Verification: ${passed} of ${products.length} products passed.`);
+
+        return {
+            salesChannel: this.salesChannel.name,
+            passed: passed,
+            failed: products.length - passed,
+            errors: errors,
+            products: verifications,
+        };
+    }
+
+    private verifyProduct(
+        product: ExpectedProduct,
+        storeProduct: Record<string, any> | undefined,
+        listedIds: Set<string>,
+        reviewCount: number | undefined,
+    ): ProductVerification {
+        const errors: string[] = [];
+
+        if (!storeProduct) {
+            errors.push("not visible in the sales channel");
+        } else {
+            if (!listedIds.has(product.id)) {
+                errors.push("not listed in its category");
+            }
+
+            if (product.hasCover && !storeProduct.cover?.media?.url) {
+                errors.push("cover image is missing");
+            }
+
+            const propertyIds = new Set(
+                (storeProduct.properties || []).map((property: Record<string, any>) => property.id),
+            );
+            const missingProperties = product.propertyIds.filter((id) => !propertyIds.has(id));
+
+            if (missingProperties.length) {
+                errors.push(
+                    `${missingProperties.length} of ${product.propertyIds.length} properties are missing`,
+                );
+            }
+
+            // Reviews of other languages may be listed as well, so there can be more.
+            if (reviewCount === undefined) {
+                errors.push("reviews couldn't be checked");
+            } else if (reviewCount < product.reviewCount) {
+                errors.push(`${reviewCount} of ${product.reviewCount} reviews are visible`);
+            }
+        }
+
+        return {
+            id: product.id,
+            name: product.name,
+            passed: !errors.length,
+            errors: errors,
+        };
+    }
+
+    // Only products visible in the sales channel are found.
+    private async getStoreProducts(ids: string[]) {
+        const storeProducts = new Map<string, Record<string, any>>();
+
+        for (let offset = 0; offset < ids.length; offset += PAGE_SIZE) {
+            const batch = ids.slice(offset, offset + PAGE_SIZE);
+            const response = await this.post("product", {
+                ids: batch,
+                limit: batch.length,
+                associations: { properties: {} },
+            });
+
+            (response.data.elements || []).forEach((product: Record<string, any>) => {
+                storeProducts.set(product.id, product);
+            });
+        }
+
+        return storeProducts;
+    }
+
+    // The listing only contains products of the category index, unlike the product search.
+    private async getListedProductIds(categoryIds: string[]) {
+        const listedIds = new Set<string>();
+
+        for (const categoryId of categoryIds) {
+            for (let page = 1; page <= MAX_LISTING_PAGES; page++) {
+                const response = await this.post(`product-listing/${categoryId}`, {
+                    p: page,
+                    limit: PAGE_SIZE,
+                    "no-aggregations": true,
+                });
+                const elements: Record<string, any>[] = response.data.elements || [];
+
+                elements.forEach((product) => listedIds.add(product.parentId || product.id));
+
+                if (elements.length < PAGE_SIZE || page * PAGE_SIZE >= response.data.total) {
+                    break;
+                }
+            }
+        }
+
+        return listedIds;
+    }
+
+    private async getReviewCount(productId: string) {
+        const response = await this.post(`product/${productId}/reviews`, {
+            limit: 1,
+            "total-count-mode": 1,
+        });
+
+        return response.data.total ?? 0;
+    }
+
+    private async post(url: string, data: Record<string, any>) {
+        return await this.taskRunner.retry(() => this.storeApiClient.post(url, data), url);
+    }
+}
@@ -0,0 +1,140 @@
+import { getEnvNumber } from "./env.js";
+
+export interface TaskFailure {
+    task: string;
+    error: string;
+    attempts: number;
+}
+
+// Thrown by tasks that must not start at all, e.g. once a budget is used up. Pools stop scheduling
+// further tasks instead of recording every remaining task as failed.
+export class TaskAbortedError extends Error {}
+
+const RETRYABLE_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ECONNABORTED"];
+
+export class TaskRunner {
+    public readonly concurrency: number;
+    public readonly retries: number;
+    public readonly baseDelayMs: number;
+    public readonly failures: TaskFailure[] = [];
+
+    constructor(concurrency = 5, retries = 3, baseDelayMs = 1000) {
+        this.concurrency = Math.max(1, concurrency);
+        this.retries = Math.max(0, retries);
+        this.baseDelayMs = baseDelayMs;
+    }
+
+    static fromEnv(env: Record<string, string | undefined>, concurrencyVariable: string) {
+        return new TaskRunner(
+            getEnvNumber(env, concurrencyVariable, 5, true, 1),
+            getEnvNumber(env, "MAX_RETRIES", 3),
+        );
+    }
+
+    isRetryableError(error: any) {
+        const status = error?.status ?? error?.response?.status;
+
+        if (typeof status === "number") {
+            return status === 429 || status >= 500;
+        }
+
+        return RETRYABLE_ERROR_CODES.includes(error?.code);
+    }
+
+    getRetryDelay(error: any, attempt: number) {
+        const retryAfter = parseInt(
+            error?.headers?.["retry-after"] ?? error?.response?.headers?.["retry-after"],
+            10,
+        );
+
+        if (!isNaN(retryAfter)) {
+            return retryAfter * 1000;
+        }
+
+        // Exponential backoff with jitter, so parallel tasks don't retry at the same moment.
+        return this.baseDelayMs * 2 ** attempt * (0.5 + Math.random() / 2);
+    }
+
+    async retry<T>(task: () => Promise<T>, taskName: string): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await task();
+            } catch (e) {
+                if (attempt >= this.retries || !this.isRetryableError(e)) {
+                    if (e && typeof e === "object") {
+                        (e as Record<string, any>).attempts = attempt + 1;
+                    }
+
+                    throw e;
+                }
+
+                const delay = this.getRetryDelay(e, attempt);
+
+                console.warn(
+                    `${taskName} failed, retrying in ${Math.round(delay / 1000)}s (${attempt + 1}/${this.retries}).`,
+                );
+
+                await new Promise((resolve) => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    async run<T, R>(
+        items: T[],
+        worker: (item: T, index: number) => Promise<R>,
+        getTaskName: (item: T, index: number) => string,
+        onSettled: ((index: number) => void) | null = null,
+    ) {
+        const results: (R | undefined)[] = new Array(items.length);
+        let nextIndex = 0;
+        let aborted = false;
+
+        const runNext = async (): Promise<void> => {
+            const index = nextIndex++;
+
+            if (aborted || index >= items.length) {
+                return;
+            }
+
+            const item = items[index] as T;
+            const taskName = getTaskName(item, index);
+
+            try {
+                results[index] = await this.retry(() => worker(item, index), taskName);
+            } catch (e) {
+                if (e instanceof TaskAbortedError) {
+                    if (!aborted) {
+                        console.warn(`${taskName} and all remaining tasks skipped: ${e.message}`);
+                    }
+
+                    aborted = true;
+                    return;
+                }
+
+                this.recordFailure(taskName, e);
+            }
+
+            onSettled?.(index);
+
+            return runNext();
+        };
+
+        await Promise.all(
+            Array.from({ length: Math.min(this.concurrency, items.length) }, () => runNext()),
+        );
+
+        return results;
+    }
+
+    recordFailure(taskName: string, error: any) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        console.error(`${taskName} failed: ${message}`);
+
+        this.failures.push({
+            task: taskName,
+            error: message,
+            attempts: error?.attempts ?? 1,
+        });
+    }
+}
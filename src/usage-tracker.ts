@@ -0,0 +1,260 @@
+import { getEnvNumber } from "./env.js";
+import { TaskAbortedError } from "./task-runner.js";
+
+export type UsagePhase =
+    | "propertyGroups"
+    | "products"
+    | "images"
+    | "variants"
+    | "crossSelling"
+    | "landingPage"
+    | "categories"
+    | "translations"
+    | "customers"
+    | "promotions";
+
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface UsageTotals {
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    images: number;
+    cost: number;
+}
+
+export interface UsageSummary {
+    total: UsageTotals;
+    phases: Partial<Record<UsagePhase, UsageTotals>>;
+    budget: number | null;
+    budgetExceeded: boolean;
+}
+
+// Prices in USD per million tokens and per generated image.
+export interface ModelPricing {
+    inputTokens: number;
+    outputTokens: number;
+    image: number;
+}
+
+const CHAT_MODEL_PRICING: Record<string, Omit<ModelPricing, "image">> = {
+    "gpt-4.1": { inputTokens: 2, outputTokens: 8 },
+    "gpt-4.1-mini": { inputTokens: 0.4, outputTokens: 1.6 },
+    "gpt-4.1-nano": { inputTokens: 0.1, outputTokens: 0.4 },
+    "gpt-4o": { inputTokens: 2.5, outputTokens: 10 },
+    "gpt-4o-mini": { inputTokens: 0.15, outputTokens: 0.6 },
+};
+
+// gpt-image-1 is priced by image quality, the high quality price keeps budgets on the safe side.
+const IMAGE_MODEL_PRICING: Record<string, number> = {
+    "gpt-image-1": 0.167,
+    "dall-e-3": 0.04,
+    "dall-e-2": 0.02,
+};
+
+// Average token counts of a single request, used for estimates before anything is generated.
+const ESTIMATED_TOKENS: Record<Exclude<UsagePhase, "images">, TokenUsage> = {
+    propertyGroups: { promptTokens: 300, completionTokens: 500 },
+    products: { promptTokens: 500, completionTokens: 1500 },
+    variants: { promptTokens: 500, completionTokens: 600 },
+    crossSelling: { promptTokens: 1000, completionTokens: 1500 },
+    landingPage: { promptTokens: 300, completionTokens: 400 },
+    categories: { promptTokens: 500, completionTokens: 800 },
+    translations: { promptTokens: 1800, completionTokens: 2000 },
+    customers: { promptTokens: 200, completionTokens: 1500 },
+    promotions: { promptTokens: 300, completionTokens: 600 },
+};
+
+export class BudgetExceededError extends TaskAbortedError {
+    constructor(budget: number, cost: number) {
+        super(`Budget of $${budget.toFixed(2)} exceeded with costs of $${cost.toFixed(2)}.`);
+    }
+}
+
+export class UsageTracker {
+    public readonly pricing: ModelPricing;
+    public readonly budget: number | null;
+
+    private phases: Partial<Record<UsagePhase, UsageTotals>> = {};
+
+    constructor(
+        pricing: ModelPricing = { inputTokens: 0, outputTokens: 0, image: 0 },
+        budget: number | null = null,
+    ) {
+        this.pricing = pricing;
+        this.budget = budget;
+    }
+
+    static forModels(
+        chatModel: string,
+        imageModel: string,
+        env: Record<string, string | undefined>,
+        budget: number | null = null,
+    ) {
+        // Matching the longest prefix gives dated model snapshots the price of their model.
+        const chatModelName = Object.keys(CHAT_MODEL_PRICING)
+            .filter((model) => chatModel.startsWith(model))
+            .sort((a, b) => b.length - a.length)[0];
+        const chatPricing = chatModelName ? CHAT_MODEL_PRICING[chatModelName] : undefined;
+
+        return new UsageTracker(
+            {
+                inputTokens: getEnvNumber(
+                    env,
+                    "LLM_INPUT_PRICE",
+                    chatPricing?.inputTokens ?? 0,
+                    false,
+                ),
+                outputTokens: getEnvNumber(
+                    env,
+                    "LLM_OUTPUT_PRICE",
+                    chatPricing?.outputTokens ?? 0,
+                    false,
+                ),
+                image: getEnvNumber(
+                    env,
+                    "LLM_IMAGE_PRICE",
+                    IMAGE_MODEL_PRICING[imageModel] ?? 0,
+                    false,
+                ),
+            },
+            budget,
+        );
+    }
+
+    recordCompletion(phase: UsagePhase, usage: TokenUsage | null) {
+        this.addUsage(phase, {
+            requests: 1,
+            promptTokens: usage?.promptTokens ?? 0,
+            completionTokens: usage?.completionTokens ?? 0,
+            images: 0,
+            cost: this.getTokenCost(usage),
+        });
+    }
+
+    recordImage(phase: UsagePhase = "images") {
+        this.addUsage(phase, {
+            requests: 1,
+            promptTokens: 0,
+            completionTokens: 0,
+            images: 1,
+            cost: this.pricing.image,
+        });
+    }
+
+    getTotals() {
+        return this.sumTotals(Object.values(this.phases));
+    }
+
+    // With an earlier summary, only the usage since then is summarized. The budget still applies
+    // to the whole usage.
+    getSummary(since: UsageSummary | null = null): UsageSummary {
+        const phases: Partial<Record<UsagePhase, UsageTotals>> = {};
+
+        Object.entries(this.phases).forEach(([phase, totals]) => {
+            const earlier = since?.phases[phase as UsagePhase];
+
+            if (totals.requests > (earlier?.requests ?? 0)) {
+                phases[phase as UsagePhase] = this.subtractTotals(totals, earlier);
+            }
+        });
+
+        return {
+            total: this.sumTotals(Object.values(phases)),
+            phases: phases,
+            budget: this.budget,
+            budgetExceeded: this.isBudgetExceeded(),
+        };
+    }
+
+    isBudgetExceeded() {
+        return this.budget !== null && this.getTotals().cost >= this.budget;
+    }
+
+    // Requests that are already running can still exceed the budget slightly.
+    assertWithinBudget() {
+        if (this.budget !== null && this.isBudgetExceeded()) {
+            throw new BudgetExceededError(this.budget, this.getTotals().cost);
+        }
+    }
+
+    estimate(requests: Partial<Record<Exclude<UsagePhase, "images">, number>>, images = 0) {
+        const totals = Object.entries(requests).map(([phase, count]) => {
+            const tokens = ESTIMATED_TOKENS[phase as Exclude<UsagePhase, "images">];
+            const usage = {
+                promptTokens: tokens.promptTokens * count,
+                completionTokens: tokens.completionTokens * count,
+            };
+
+            return {
+                requests: count,
+                ...usage,
+                images: 0,
+                cost: this.getTokenCost(usage),
+            };
+        });
+
+        return this.sumTotals([
+            ...totals,
+            {
+                requests: images,
+                promptTokens: 0,
+                completionTokens: 0,
+                images: images,
+                cost: this.pricing.image * images,
+            },
+        ]);
+    }
+
+    private getTokenCost(usage: TokenUsage | null) {
+        if (!usage) {
+            return 0;
+        }
+
+        return (
+            (usage.promptTokens * this.pricing.inputTokens +
+                usage.completionTokens * this.pricing.outputTokens) /
+            1_000_000
+        );
+    }
+
+    private addUsage(phase: UsagePhase, usage: UsageTotals) {
+        this.phases[phase] = this.sumTotals([this.phases[phase], usage]);
+    }
+
+    private subtractTotals(totals: UsageTotals, earlier: UsageTotals | undefined): UsageTotals {
+        return {
+            requests: totals.requests - (earlier?.requests ?? 0),
+            promptTokens: totals.promptTokens - (earlier?.promptTokens ?? 0),
+            completionTokens: totals.completionTokens - (earlier?.completionTokens ?? 0),
+            images: totals.images - (earlier?.images ?? 0),
+            cost: totals.cost - (earlier?.cost ?? 0),
+        };
+    }
+
+    private sumTotals(totals: (UsageTotals | undefined)[]): UsageTotals {
+        return totals.reduce<UsageTotals>(
+            (sum, total) => {
+                return {
+                    requests: sum.requests + (total?.requests ?? 0),
+                    promptTokens: sum.promptTokens + (total?.promptTokens ?? 0),
+                    completionTokens: sum.completionTokens + (total?.completionTokens ?? 0),
+                    images: sum.images + (total?.images ?? 0),
+                    cost: sum.cost + (total?.cost ?? 0),
+                };
+            },
+            { requests: 0, promptTokens: 0, completionTokens: 0, images: 0, cost: 0 },
+        );
+    }
+}
+
+export function formatUsage(totals: UsageTotals) {
+    return (
+        `${totals.requests} requests, ${totals.promptTokens} prompt tokens, ` +
+        `${totals.completionTokens} completion tokens, ${totals.images} images, ` +
+        `$${totals.cost.toFixed(2)}`
+    );
+}
@@ -0,0 +1,986 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import { DataHydrator } from "../src/data-hydrator.js";
+import { FakeProvider } from "../src/fake-provider.js";
+import { RunStore } from "../src/run-store.js";
+import { TaskRunner } from "../src/task-runner.js";
+import {
+    MOCK_CLIENT_ID,
+    MOCK_CLIENT_SECRET,
+    MOCK_PASSWORD,
+    MOCK_USER,
+    MockAdminApi,
+} from "./mock-admin-api.js";
+
+let runDir: string;
+let image: string;
+let api: MockAdminApi;
+
+async function createHydrator() {
+    const dataHydrator = new DataHydrator(new TaskRunner(2, 0, 0));
+
+    assert.equal(
+        await dataHydrator.authenticateWithClientCredentials(
+            api.url,
+            MOCK_CLIENT_ID,
+            MOCK_CLIENT_SECRET,
+        ),
+        true,
+    );
+
+    return dataHydrator;
+}
+
+function createProduct(name: string, data: Record<string, any> = {}) {
+    return {
+        name: name,
+        description: `<p>The description of ${name}.</p>`,
+        price: 9.99,
+        stock: 20,
+        ...data,
+    };
+}
+
+before(async () => {
+    runDir = fs.mkdtempSync(path.join(os.tmpdir(), "data-hydrator-"));
+    image = (await new FakeProvider().generateImage("product", "16x16")) ?? "";
+});
+
+after(() => {
+    fs.rmSync(runDir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+    api = new MockAdminApi();
+    await api.start();
+});
+
+afterEach(async () => {
+    await api.stop();
+});
+
+describe("authentication", () => {
+    it("sends the token of the client credentials with every request", async () => {
+        const dataHydrator = await createHydrator();
+
+        await dataHydrator.getStandardTax();
+
+        assert.deepEqual(api.getRequests("oauth/token")[0]?.body, {
+            grant_type: "client_credentials",
+            client_id: MOCK_CLIENT_ID,
+            client_secret: MOCK_CLIENT_SECRET,
+            scope: "write",
+        });
+        assert.equal(api.getRequests("search/tax").length, 1);
+    });
+
+    it("rejects invalid client credentials", async () => {
+        const dataHydrator = new DataHydrator();
+
+        await assert.rejects(
+            dataHydrator.authenticateWithClientCredentials(api.url, MOCK_CLIENT_ID, "wrong"),
+            (e: any) => e.response?.status === 401,
+        );
+    });
+
+    it("doesn't log in without user credentials", async () => {
+        const dataHydrator = new DataHydrator();
+
+        assert.equal(
+            await dataHydrator.authenticateWithUserCredentials(api.url, MOCK_USER, ""),
+            false,
+        );
+        assert.equal(api.requests.length, 0);
+    });
+
+    it("renews an expired token and repeats the request", async () => {
+        const dataHydrator = new DataHydrator(new TaskRunner(1, 0, 0));
+
+        await dataHydrator.authenticateWithUserCredentials(api.url, MOCK_USER, MOCK_PASSWORD);
+        api.expireToken();
+
+        assert.equal((await dataHydrator.getStandardTax()).id, "tax-19");
+
+        const tokenRequests = api.getRequests("oauth/token");
+
+        assert.equal(tokenRequests.length, 2);
+        assert.equal(tokenRequests[1]?.body.grant_type, "refresh_token");
+        assert.equal(api.getRequests("search/tax").length, 2);
+    });
+
+    it("keeps the refresh token if a refresh returns none", async () => {
+        const dataHydrator = new DataHydrator(new TaskRunner(1, 0, 0));
+
+        await dataHydrator.authenticateWithUserCredentials(api.url, MOCK_USER, MOCK_PASSWORD);
+        api.expireToken();
+        await dataHydrator.getStandardTax();
+        api.expireToken();
+        await dataHydrator.getStandardTax();
+
+        assert.deepEqual(
+            api.getRequests("oauth/token").map((request) => request.body.grant_type),
+            ["password", "refresh_token", "refresh_token"],
+        );
+        assert.deepEqual(
+            api.getRequests("oauth/token").map((request) => request.body.refresh_token),
+            [undefined, "refresh-token", "refresh-token"],
+        );
+    });
+
+    it("skips writes without authentication", async () => {
+        const dataHydrator = new DataHydrator();
+
+        assert.equal(
+            await dataHydrator.hydrateEnvWithProducts([createProduct("Lemonade")], "soft drinks"),
+            false,
+        );
+        assert.equal(api.requests.length, 0);
+    });
+});
+
+describe("environment data", () => {
+    it("fails for a missing sales channel", async () => {
+        const dataHydrator = await createHydrator();
+
+        await assert.rejects(
+            dataHydrator.hydrateEnvWithProducts(
+                [createProduct("Lemonade")],
+                "soft drinks",
+                "Outlet",
+            ),
+            { message: 'No sales channel named "Outlet" found.' },
+        );
+        assert.equal(api.syncOperations.length, 0);
+    });
+
+    it("fails for a missing tax rate", async () => {
+        const dataHydrator = await createHydrator();
+
+        api.entities["tax"] = [];
+
+        await assert.rejects(
+            dataHydrator.hydrateEnvWithProducts([createProduct("Lemonade")], "soft drinks"),
+            { message: "No tax rate found." },
+        );
+    });
+
+    it("falls back to the default currency and fails without it", async () => {
+        const dataHydrator = await createHydrator();
+
+        delete api.entities["sales-channel"]?.[0]?.currencyId;
+
+        await dataHydrator.hydrateEnvWithProducts([createProduct("Lemonade")], "soft drinks");
+
+        assert.equal(api.getSyncedPayload("product")[0]?.price[0].currencyId, "eur");
+
+        api.entities["currency"] = [];
+
+        await assert.rejects(
+            dataHydrator.hydrateEnvWithProducts([createProduct("Cola")], "soft drinks"),
+            { message: "No currency with the ISO code EUR found." },
+        );
+    });
+});
+
+describe("property groups", () => {
+    it("writes new groups and only the new options of existing groups", async () => {
+        const dataHydrator = await createHydrator();
+
+        const propertyGroups = await dataHydrator.hydrateEnvWithPropertyGroups([
+            {
+                name: "Flavor",
+                description: "The flavor of the drink",
+                displayType: "text",
+                options: [{ name: "Lemon" }, { name: "Orange" }],
+            },
+            {
+                id: "color",
+                name: "Color",
+                displayType: "color",
+                existing: true,
+                options: [
+                    { id: "red", name: "Red", colorHexCode: "#ff0000", existing: true },
+                    { name: "Green", colorHexCode: "#00ff00" },
+                ],
+            },
+        ]);
+
+        const [flavor, color] = api.getSyncedPayload("property_group");
+
+        assert.equal(flavor?.name, "Flavor");
+        assert.equal(flavor?.existing, undefined);
+        assert.deepEqual(
+            flavor?.options.map((option: Record<string, any>) => option.name),
+            ["Lemon", "Orange"],
+        );
+        assert.ok(flavor?.options.every((option: Record<string, any>) => option.id));
+        assert.deepEqual(Object.keys(color ?? {}), ["id", "options"]);
+        assert.deepEqual(
+            color?.options.map((option: Record<string, any>) => option.name),
+            ["Green"],
+        );
+        assert.equal(propertyGroups.length, 2);
+    });
+});
+
+describe("products", () => {
+    it("writes products with visibility, categories, reviews, properties and media", async () => {
+        const dataHydrator = await createHydrator();
+        const run = await dataHydrator.startRun(new RunStore(runDir), "soft drinks");
+
+        await dataHydrator.hydrateEnvWithProducts(
+            [
+                createProduct("Lemonade", {
+                    image: { name: "lemonade", data: image },
+                    gallery: [
+                        { name: "lemonade-side", data: image, alt: "Lemonade from the side" },
+                    ],
+                    productReviews: [
+                        {
+                            title: "Great",
+                            content: "Very refreshing.",
+                            points: 5,
+                            externalUser: "Anna",
+                        },
+                    ],
+                    options: [{ id: "lemon", name: "Lemon" }],
+                }),
+            ],
+            "soft drinks",
+        );
+
+        const category = api.getRequests("category")[0]?.body;
+
+        assert.equal(category?.name, "Soft drinks");
+        assert.equal(category?.parentId, "home");
+        assert.deepEqual(category?.tags, [{ id: run.tagId }]);
+
+        const [product] = api.getSyncedPayload("product");
+
+        assert.equal(product?.name, "Lemonade");
+        assert.equal(product?.taxId, "tax-19");
+        assert.deepEqual(product?.price, [
+            { currencyId: "eur", gross: 9.99, net: 9.99 / 1.19, linked: true },
+        ]);
+        assert.deepEqual(product?.visibilities, [
+            { productId: product?.id, salesChannelId: "storefront", visibility: 30 },
+        ]);
+        assert.deepEqual(
+            product?.categories.map((productCategory: Record<string, any>) => productCategory.id),
+            ["home", api.getEntities("category")[1]?.id],
+        );
+        assert.deepEqual(product?.properties, [{ id: "lemon" }]);
+        assert.deepEqual(product?.tags, [{ id: run.tagId }]);
+
+        assert.equal(product?.productReviews.length, 1);
+        assert.equal(product?.productReviews[0].points, 5);
+        assert.equal(product?.productReviews[0].salesChannelId, "storefront");
+
+        const media = api.getSyncedPayload("media");
+
+        assert.deepEqual(
+            media.map((entity) => entity.alt),
+            ["Lemonade", "Lemonade from the side"],
+        );
+        assert.deepEqual(
+            product?.media.map((productMedia: Record<string, any>) => productMedia.media.id),
+            media.map((entity) => entity.id),
+        );
+        assert.equal(product?.coverId, product?.media[0].id);
+
+        assert.equal(api.uploads.length, 2);
+        assert.ok(api.uploads.every((upload) => upload.contentType === "image/webp"));
+        assert.ok(api.uploads.every((upload) => upload.extension === "webp" && upload.size > 0));
+        assert.deepEqual(
+            api.uploads.map((upload) => upload.mediaId).sort(),
+            media.map((entity) => entity.id).sort(),
+        );
+
+        assert.deepEqual(run.entities.product, [product?.id]);
+        assert.equal(run.entities.media?.length, 2);
+        assert.equal(run.entities.product_review?.length, 1);
+    });
+
+    it("adds translations and a review copy per language", async () => {
+        const dataHydrator = await createHydrator();
+
+        await dataHydrator.hydrateEnvWithProducts(
+            [
+                createProduct("Lemonade", {
+                    translations: { "de-DE": { name: "Limonade" }, "fr-FR": { name: "Limonade" } },
+                    productReviews: [
+                        {
+                            title: "Great",
+                            content: "Very refreshing.",
+                            points: 5,
+                            translations: {
+                                "de-DE": { title: "Toll", content: "Sehr erfrischend." },
+                            },
+                        },
+                    ],
+                }),
+            ],
+            "soft drinks",
+        );
+
+        const [product] = api.getSyncedPayload("product");
+
+        assert.deepEqual(product?.translations, [{ languageId: "german", name: "Limonade" }]);
+        assert.deepEqual(
+            product?.productReviews.map((review: Record<string, any>) => [
+                review.languageId,
+                review.title,
+            ]),
+            [
+                [undefined, "Great"],
+                ["german", "Toll"],
+            ],
+        );
+    });
+
+    it("adds the translations of every category of the category tree", async () => {
+        const dataHydrator = await createHydrator();
+
+        await dataHydrator.hydrateEnvWithProducts(
+            [createProduct("Lemonade", { categoryPath: "Drinks > Lemonades" })],
+            "soft drinks",
+            "Storefront",
+            { "de-DE": { name: "Erfrischungsgetränke" } },
+            [
+                {
+                    name: "Drinks",
+                    description: "All drinks.",
+                    translations: { "de-DE": { name: "Getränke", description: "Alle Getränke." } },
+                    children: [
+                        {
+                            name: "Lemonades",
+                            description: "Sweet drinks.",
+                            translations: {
+                                "de-DE": { name: "Limonaden", description: "Süße Getränke." },
+                            },
+                        },
+                    ],
+                },
+            ],
+        );
+
+        const categories = api.getEntities("category");
+
+        assert.deepEqual(
+            ["Soft drinks", "Drinks", "Lemonades"].map(
+                (name) => categories.find((category) => category.name === name)?.translations,
+            ),
+            [
+                [{ languageId: "german", name: "Erfrischungsgetränke" }],
+                [{ languageId: "german", name: "Getränke", description: "Alle Getränke." }],
+                [{ languageId: "german", name: "Limonaden", description: "Süße Getränke." }],
+            ],
+        );
+    });
+
+    it("writes master data, the manufacturer and list prices", async () => {
+        const dataHydrator = await createHydrator();
+        const run = await dataHydrator.startRun(new RunStore(runDir), "soft drinks");
+
+        await dataHydrator.hydrateEnvWithProducts(
+            [
+                createProduct("Lemonade", {
+                    price: 11.9,
+                    ean: "2000000000015",
+                    manufacturerNumber: "LEM-330",
+                    listPrice: 23.8,
+                    weight: 0.35,
+                    width: 66,
+                    height: 115,
+                    length: 66,
+                    metaTitle: "Lemonade with real lemons",
+                    metaDescription: "Our lemonade is made with real lemons.",
+                    keywords: "lemonade, lemons",
+                    variants: [
+                        { options: [{ id: "large", name: "Large" }], stock: 3, priceDelta: 11.9 },
+                    ],
+                }),
+            ],
+            "soft drinks",
+            "Storefront",
+            {},
+            null,
+            {
+                name: "Fizzwell",
+                description: "Fizzwell makes lemonades.",
+                logo: { name: "FizzwellLogo", data: image },
+                translations: { "de-DE": { description: "Fizzwell macht Limonaden." } },
+            },
+        );
+
+        const [manufacturer] = api.getSyncedPayload("product_manufacturer");
+        const [product, variant] = api.getSyncedPayload("product");
+
+        assert.equal(manufacturer?.name, "Fizzwell");
+        assert.deepEqual(manufacturer?.translations, [
+            { languageId: "german", description: "Fizzwell macht Limonaden." },
+        ]);
+        assert.ok(api.uploads.some((upload) => upload.mediaId === manufacturer?.mediaId));
+        assert.deepEqual(run.entities.product_manufacturer, [manufacturer?.id]);
+
+        assert.equal(product?.manufacturerId, manufacturer?.id);
+        assert.equal(product?.ean, "2000000000015");
+        assert.equal(product?.manufacturerNumber, "LEM-330");
+        assert.deepEqual(
+            [product?.weight, product?.width, product?.height, product?.length],
+            [0.35, 66, 115, 66],
+        );
+        assert.equal(product?.metaTitle, "Lemonade with real lemons");
+        assert.equal(product?.keywords, "lemonade, lemons");
+        assert.deepEqual(product?.price[0].listPrice, {
+            currencyId: "eur",
+            gross: 23.8,
+            net: 20,
+            linked: true,
+        });
+        assert.equal(variant?.price[0].net, 20);
+        assert.equal(variant?.price[0].listPrice.gross, 35.7);
+    });
+
+    it("derives the net prices from the tax rate", async () => {
+        const dataHydrator = await createHydrator();
+
+        await dataHydrator.hydrateEnvWithProducts(
+            [
+                createProduct("Lemonade", {
+                    price: 11.9,
+                    listPrice: 23.8,
+                    variants: [
+                        { options: [{ id: "large", name: "Large" }], stock: 3, priceDelta: 11.9 },
+                    ],
+                }),
+            ],
+            "soft drinks",
+        );
+
+        const [product, variant] = api.getSyncedPayload("product");
+
+        assert.deepEqual(product?.price, [
+            {
+                currencyId: "eur",
+                gross: 11.9,
+                net: 10,
+                linked: true,
+                listPrice: { currencyId: "eur", gross: 23.8, net: 20, linked: true },
+            },
+        ]);
+        assert.equal(variant?.price[0].gross, 23.8);
+        assert.equal(variant?.price[0].net, 20);
+    });
+
+    it("writes products without a rejected manufacturer", async () => {
+        const dataHydrator = await createHydrator();
+
+        api.rejectSync = (entity) =>
+            entity === "product_manufacturer" ? "This value is invalid." : null;
+
+        await dataHydrator.hydrateEnvWithProducts(
+            [createProduct("Lemonade", { listPrice: 8.99 })],
+            "soft drinks",
+            "Storefront",
+            {},
+            null,
+            { name: "Fizzwell", description: "Fizzwell makes lemonades." },
+        );
+
+        const [product] = api.getSyncedPayload("product");
+
+        assert.equal(product?.manufacturerId, undefined);
+        assert.equal(product?.price[0].listPrice, undefined);
+        assert.equal(dataHydrator.syncReport.rejected[0]?.entity, "product_manufacturer");
+    });
+
+    it("links written products with cross-selling", async () => {
+        const dataHydrator = await createHydrator();
+        const run = await dataHydrator.startRun(new RunStore(runDir), "soft drinks");
+
+        api.rejectSync = (entity, payload) =>
+            entity === "product" && payload.name === "Broken" ? "This value is invalid." : null;
+
+        await dataHydrator.hydrateEnvWithProducts(
+            [
+                createProduct("Lemonade", {
+                    crossSellings: [
+                        { name: "Similar products", productNames: ["Cola", "Broken"] },
+                        { name: "Accessories", productNames: ["Broken"] },
+                    ],
+                }),
+                createProduct("Cola", {
+                    crossSellings: [
+                        { name: "Frequently bought together", productNames: ["Lemonade"] },
+                    ],
+                }),
+                createProduct("Broken", {
+                    crossSellings: [{ name: "Similar products", productNames: ["Lemonade"] }],
+                }),
+            ],
+            "soft drinks",
+        );
+
+        const [lemonade, cola] = api.getSyncedPayload("product");
+        const crossSellings = api.getSyncedPayload("product_cross_selling");
+
+        assert.deepEqual(
+            crossSellings.map((crossSelling) => [
+                crossSelling.productId,
+                crossSelling.name,
+                crossSelling.type,
+                crossSelling.assignedProducts.map(
+                    (assigned: Record<string, any>) => assigned.productId,
+                ),
+            ]),
+            [
+                [lemonade?.id, "Similar products", "productList", [cola?.id]],
+                [cola?.id, "Frequently bought together", "productList", [lemonade?.id]],
+            ],
+        );
+        assert.deepEqual(
+            run.entities.product_cross_selling,
+            crossSellings.map((crossSelling) => crossSelling.id),
+        );
+    });
+
+    it("assigns a landing page with the written products to the category", async () => {
+        const dataHydrator = await createHydrator();
+        const run = await dataHydrator.startRun(new RunStore(runDir), "soft drinks");
+
+        api.rejectSync = (entity, payload) =>
+            entity === "product" && payload.name === "Broken" ? "This value is invalid." : null;
+
+        await dataHydrator.hydrateEnvWithProducts(
+            [createProduct("Lemonade"), createProduct("Broken")],
+            "soft drinks",
+            "Storefront",
+            {},
+            null,
+            null,
+            {
+                headline: "Fresh drinks",
+                introText: "<p>Cool down.</p>",
+                sliderTitle: "Our drinks",
+                banner: { name: "SoftDrinksBanner", type: ".png", data: image },
+                translations: {
+                    "de-DE": {
+                        headline: "Frische Getränke",
+                        introText: "<p>Abkühlen.</p>",
+                        sliderTitle: "Unsere Getränke",
+                    },
+                },
+            },
+        );
+
+        const [lemonade] = api.getSyncedPayload("product");
+        const [page] = api.getSyncedPayload("cms_page");
+        const slots = page?.sections.flatMap((section: Record<string, any>) =>
+            section.blocks.flatMap((block: Record<string, any>) => block.slots),
+        );
+        const [banner, text, slider] = slots;
+        const category = api.getEntities("category").find((c) => c.name === "Soft drinks");
+
+        assert.deepEqual(
+            slots.map((slot: Record<string, any>) => slot.type),
+            ["image", "text", "product-slider"],
+        );
+        assert.deepEqual(
+            api.uploads.map((upload) => upload.mediaId),
+            [banner.config.media.value],
+        );
+        assert.equal(text.config.content.value, "<h2>Fresh drinks</h2><p>Cool down.</p>");
+        assert.deepEqual(text.translations, [
+            {
+                languageId: "german",
+                config: {
+                    content: {
+                        source: "static",
+                        value: "<h2>Frische Getränke</h2><p>Abkühlen.</p>",
+                    },
+                },
+            },
+        ]);
+        assert.deepEqual(slider.config.products.value, [lemonade?.id]);
+        assert.equal(category?.cmsPageId, page?.id);
+        assert.deepEqual(run.entities.cms_page, [page?.id]);
+    });
+
+    it("escapes the texts of the landing page", async () => {
+        const dataHydrator = await createHydrator();
+
+        await dataHydrator.hydrateEnvWithProducts(
+            [createProduct("Lemonade")],
+            "soft drinks",
+            "Storefront",
+            {},
+            null,
+            null,
+            {
+                headline: "Fresh & <cool> drinks",
+                introText:
+                    '<p onclick="alert(1)">Cool <strong>down</strong>.</p><script>alert(1)</script>',
+                sliderTitle: "Our drinks",
+            },
+        );
+
+        const [page] = api.getSyncedPayload("cms_page");
+        const text = page?.sections[0].blocks[0].slots[0];
+
+        assert.equal(
+            text.config.content.value,
+            "<h2>Fresh &amp; &lt;cool&gt; drinks</h2><p>Cool <strong>down</strong>.</p>" +
+                "&lt;script&gt;alert(1)&lt;/script&gt;",
+        );
+    });
+
+    it("writes variants after their parents", async () => {
+        const dataHydrator = await createHydrator();
+
+        await dataHydrator.hydrateEnvWithProducts(
+            [
+                createProduct("Lemonade", {
+                    variantGroups: [{ id: "size", name: "Size", displayType: "text" }],
+                    variants: [
+                        { options: [{ id: "small", name: "Small" }], stock: 5, priceDelta: -1 },
+                        { options: [{ id: "large", name: "Large" }], stock: 3, priceDelta: 2 },
+                    ],
+                }),
+            ],
+            "soft drinks",
+        );
+
+        const [parent, ...variants] = api.getSyncedPayload("product");
+
+        assert.deepEqual(
+            parent?.configuratorSettings.map((setting: Record<string, any>) => setting.optionId),
+            ["small", "large"],
+        );
+        assert.deepEqual(parent?.variantListingConfig.configuratorGroupConfig, [
+            { id: "size", representation: "box", expressionForListings: false },
+        ]);
+        assert.deepEqual(
+            variants.map((variant) => [variant.parentId, variant.options, variant.price[0].gross]),
+            [
+                [parent?.id, [{ id: "small" }], 8.99],
+                [parent?.id, [{ id: "large" }], 11.99],
+            ],
+        );
+    });
+
+    it("reports rejected products and writes the rest of the batch", async () => {
+        const dataHydrator = await createHydrator();
+
+        api.rejectSync = (entity, payload) =>
+            entity === "product" && payload.name === "Broken" ? "This value is invalid." : null;
+
+        await dataHydrator.hydrateEnvWithProducts(
+            [
+                createProduct("Lemonade"),
+                createProduct("Broken", {
+                    image: { name: "broken", data: image },
+                    variants: [
+                        { options: [{ id: "small", name: "Small" }], stock: 1, priceDelta: 0 },
+                    ],
+                }),
+                createProduct("Cola"),
+            ],
+            "soft drinks",
+        );
+
+        assert.deepEqual(
+            api.getSyncedPayload("product").map((product) => product.name),
+            ["Lemonade", "Cola"],
+        );
+        assert.deepEqual(dataHydrator.syncReport.written, { media: 1, product: 2 });
+        assert.deepEqual(
+            dataHydrator.syncReport.rejected.map((rejection) => rejection.errors),
+            [["name: This value is invalid."], ["The parent product was rejected."]],
+        );
+        assert.equal(dataHydrator.syncReport.rejected[0]?.name, "Broken");
+        // Images of rejected products aren't uploaded.
+        assert.equal(api.uploads.length, 0);
+    });
+
+    it("reports errors that belong to no entity of the batch", async () => {
+        const dataHydrator = await createHydrator();
+
+        api.rejectSync = (entity, payload) =>
+            entity === "product" && payload.name === "Broken" ? "This value is invalid." : null;
+        api.unassignedSyncErrors = [{ status: "400", detail: "Something else failed." }];
+
+        await dataHydrator.hydrateEnvWithProducts(
+            [createProduct("Lemonade"), createProduct("Broken")],
+            "soft drinks",
+        );
+
+        assert.deepEqual(
+            dataHydrator.syncReport.rejected.map((rejection) => rejection.name),
+            ["Broken"],
+        );
+        assert.deepEqual(dataHydrator.syncReport.errors, ["product: Something else failed."]);
+        assert.equal(dataHydrator.syncReport.written["product"], 1);
+    });
+
+    it("writes products in batches", async () => {
+        const dataHydrator = new DataHydrator(new TaskRunner(1, 0, 0), 2);
+
+        await dataHydrator.authenticateWithClientCredentials(
+            api.url,
+            MOCK_CLIENT_ID,
+            MOCK_CLIENT_SECRET,
+        );
+        await dataHydrator.hydrateEnvWithProducts(
+            ["Lemonade", "Cola", "Water", "Juice", "Tea"].map((name) => createProduct(name)),
+            "soft drinks",
+        );
+
+        assert.deepEqual(
+            api.syncOperations
+                .filter((operation) => operation.entity === "product")
+                .map((operation) => operation.payload.length),
+            [2, 2, 1],
+        );
+    });
+});
+
+describe("runs", () => {
+    it("removes the entities of a run", async () => {
+        const dataHydrator = await createHydrator();
+        const runStore = new RunStore(runDir);
+        const run = await dataHydrator.startRun(runStore, "soft drinks");
+
+        await dataHydrator.hydrateEnvWithProducts(
+            [
+                createProduct("Lemonade", {
+                    image: { name: "lemonade", data: image },
+                    options: [{ id: "lemon", name: "Lemon" }],
+                }),
+            ],
+            "soft drinks",
+        );
+
+        assert.equal(await dataHydrator.cleanRun(runStore.get(run.id) ?? run), true);
+        assert.deepEqual(api.getEntities("product"), []);
+        assert.deepEqual(api.getEntities("media"), []);
+        assert.deepEqual(api.getEntities("tag"), []);
+        assert.equal(
+            api.getEntities("category").some((category) => category.name === "Soft drinks"),
+            false,
+        );
+    });
+
+    it("keeps categories that still contain other products", async () => {
+        const dataHydrator = await createHydrator();
+        const runStore = new RunStore(runDir);
+        const run = await dataHydrator.startRun(runStore, "soft drinks");
+
+        await dataHydrator.hydrateEnvWithProducts([createProduct("Lemonade")], "soft drinks");
+
+        const category = api.getEntities("category").find((c) => c.name === "Soft drinks");
+
+        api.getEntities("product").push({ id: "manual", categories: [{ id: category?.id }] });
+
+        await dataHydrator.cleanRun(runStore.get(run.id) ?? run);
+
+        assert.deepEqual(
+            api.getEntities("product").map((product) => product.id),
+            ["manual"],
+        );
+        assert.ok(api.getEntities("category").includes(category ?? {}));
+    });
+});
+
+describe("promotions", () => {
+    const createPromotion = (name: string, data: Record<string, any> = {}) => {
+        return {
+            name: name,
+            code: name.toUpperCase(),
+            individualCodes: false,
+            discountType: "percentage",
+            discountValue: 10,
+            validDays: 30,
+            scope: "salesChannel",
+            ...data,
+        };
+    };
+
+    it("writes promotions of the sales channel and the category", async () => {
+        const dataHydrator = await createHydrator();
+        const run = await dataHydrator.startRun(new RunStore(runDir), "soft drinks");
+
+        await dataHydrator.hydrateEnvWithPromotions(
+            [
+                createPromotion("Summer"),
+                createPromotion("Fizz", {
+                    individualCodes: true,
+                    discountType: "absolute",
+                    discountValue: 5,
+                    scope: "category",
+                    codes: ["FIZZ-ABCDE", "FIZZ-FGHIJ"],
+                }),
+            ],
+            "soft drinks",
+        );
+
+        const [summer, fizz] = api.getSyncedPayload("promotion");
+        const [rule] = api.getSyncedPayload("rule");
+        const category = api.getEntities("category").find((c) => c.name === "Soft drinks");
+
+        assert.equal(summer?.code, "SUMMER");
+        assert.equal(summer?.useIndividualCodes, false);
+        assert.deepEqual(summer?.salesChannels[0].salesChannelId, "storefront");
+        assert.equal(summer?.discounts[0].considerAdvancedRules, false);
+        assert.equal(
+            new Date(summer?.validUntil).getTime() - new Date(summer?.validFrom).getTime(),
+            30 * 24 * 60 * 60 * 1000,
+        );
+
+        assert.equal(fizz?.code, null);
+        assert.equal(fizz?.individualCodePattern, "FIZZ-%s%s%s%s%s");
+        assert.deepEqual(
+            fizz?.individualCodes.map((code: Record<string, any>) => code.code),
+            ["FIZZ-ABCDE", "FIZZ-FGHIJ"],
+        );
+        assert.deepEqual(fizz?.discounts[0].discountRules, [{ id: rule?.id }]);
+        assert.deepEqual(rule?.conditions[0].children[0].children[0].value, {
+            operator: "=",
+            categoryIds: [category?.id],
+        });
+        assert.deepEqual(run.entities.promotion, [summer?.id, fizz?.id]);
+        assert.deepEqual(run.entities.rule, [rule?.id]);
+    });
+
+    it("leaves out promotions of the category without its rule", async () => {
+        const dataHydrator = await createHydrator();
+
+        api.rejectSync = (entity) => (entity === "rule" ? "This value is invalid." : null);
+
+        const promotions = await dataHydrator.hydrateEnvWithPromotions(
+            [createPromotion("Summer"), createPromotion("Fizz", { scope: "category" })],
+            "soft drinks",
+        );
+
+        assert.deepEqual(
+            promotions.map((promotion) => promotion.name),
+            ["Summer"],
+        );
+        assert.deepEqual(
+            dataHydrator.syncReport.rejected.map((rejection) => rejection.entity),
+            ["rule", "promotion"],
+        );
+    });
+});
+
+describe("customers and orders", () => {
+    it("writes customers with the settings of the sales channel", async () => {
+        const dataHydrator = await createHydrator();
+
+        const customers = await dataHydrator.hydrateEnvWithCustomers([
+            {
+                salutation: "mrs",
+                firstName: "Anna",
+                lastName: "Schmidt",
+                email: "anna@example.com",
+                address: { street: "Hauptstraße 1", zipcode: "48624", city: "Schöppingen" },
+            },
+        ]);
+
+        const [customer] = api.getSyncedPayload("customer");
+
+        assert.equal(customers.length, 1);
+        assert.equal(customer?.salutationId, "mrs");
+        assert.equal(customer?.groupId, "customer-group");
+        assert.equal(customer?.salesChannelId, "storefront");
+        assert.equal(customer?.defaultPaymentMethodId, "invoice");
+        assert.equal(customer?.defaultBillingAddressId, customer?.addresses[0].id);
+        assert.equal(customer?.addresses[0].countryId, "germany");
+
+        await dataHydrator.hydrateEnvWithOrders(
+            [
+                {
+                    customerIndex: 0,
+                    orderDate: new Date("2025-01-15T10:00:00Z"),
+                    orderState: "completed",
+                    paymentState: "paid",
+                    deliveryState: "shipped",
+                    lineItems: [{ productIndex: 0, quantity: 2 }],
+                },
+            ],
+            customers,
+            [
+                {
+                    id: "lemonade",
+                    name: "Lemonade",
+                    productNumber: "AI-lemonade",
+                    price: [{ gross: 11.9 }],
+                    tax: { taxRate: 19 },
+                },
+            ],
+        );
+
+        const [order] = api.getSyncedPayload("order");
+
+        assert.equal(order?.stateId, "order.state.completed");
+        assert.equal(order?.transactions[0].stateId, "order_transaction.state.paid");
+        assert.equal(order?.deliveries[0].stateId, "order_delivery.state.shipped");
+        assert.equal(order?.deliveries[0].shippingMethodId, "standard");
+        assert.equal(order?.orderCustomer.email, "anna@example.com");
+        assert.equal(order?.price.totalPrice, 23.8);
+        assert.equal(order?.price.netPrice, 20);
+        assert.equal(order?.lineItems[0].price.calculatedTaxes[0].tax, 3.8);
+    });
+
+    it("sums the taxes of an order per tax rate", async () => {
+        const dataHydrator = await createHydrator();
+        const customers = await dataHydrator.hydrateEnvWithCustomers([
+            {
+                salutation: "mrs",
+                firstName: "Anna",
+                lastName: "Schmidt",
+                email: "anna@example.com",
+                address: { street: "Hauptstraße 1", zipcode: "48624", city: "Schöppingen" },
+            },
+        ]);
+
+        await dataHydrator.hydrateEnvWithOrders(
+            [
+                {
+                    customerIndex: 0,
+                    orderDate: new Date("2025-01-15T10:00:00Z"),
+                    orderState: "open",
+                    paymentState: "open",
+                    deliveryState: "open",
+                    lineItems: [
+                        { productIndex: 0, quantity: 1 },
+                        { productIndex: 1, quantity: 2 },
+                        { productIndex: 2, quantity: 1 },
+                    ],
+                },
+            ],
+            customers,
+            [
+                {
+                    id: "lemonade",
+                    name: "Lemonade",
+                    price: [{ gross: 11.9 }],
+                    tax: { taxRate: 19 },
+                },
+                { id: "cola", name: "Cola", price: [{ gross: 5.95 }], tax: { taxRate: 19 } },
+                { id: "book", name: "Book", price: [{ gross: 10.7 }], tax: { taxRate: 7 } },
+            ],
+        );
+
+        const [order] = api.getSyncedPayload("order");
+
+        assert.deepEqual(order?.price.calculatedTaxes, [
+            { tax: 3.8, taxRate: 19, price: 23.8 },
+            { tax: 0.7, taxRate: 7, price: 10.7 },
+        ]);
+        assert.equal(order?.price.netPrice, 30);
+    });
+});
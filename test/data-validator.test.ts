@@ -0,0 +1,206 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { DataGenerator } from "../src/data-generator.js";
+import { DataValidator } from "../src/data-validator.js";
+import { FakeProvider } from "../src/fake-provider.js";
+import { ImageCache } from "../src/image-cache.js";
+import { TaskRunner } from "../src/task-runner.js";
+import { UsageTracker } from "../src/usage-tracker.js";
+
+const DESCRIPTION = "<p>A refreshing lemonade with real lemons.</p>";
+
+let tempDir: string;
+
+function createProduct(data: Record<string, any> = {}): Record<string, any> {
+    return {
+        name: "Lemonade",
+        description: DESCRIPTION,
+        price: 9.99,
+        stock: 20,
+        ...data,
+    };
+}
+
+// Products with a too short description are invalid until the given attempt.
+function createGenerator(validFromAttempt: number) {
+    const provider = new FakeProvider();
+    const completeStructured = provider.completeStructured.bind(provider);
+    const dataValidator = new DataValidator();
+    let attempts = 0;
+
+    provider.completeStructured = async (prompt, schema, schemaName) => {
+        const completion = await completeStructured(prompt, schema, schemaName);
+
+        if (schemaName === "product" && ++attempts < validFromAttempt) {
+            completion.data.description = "<p>Too short.</p>";
+        }
+
+        return completion;
+    };
+
+    const dataGenerator = new DataGenerator(
+        provider,
+        new ImageCache(path.join(tempDir, "images")),
+        new TaskRunner(1, 0, 0),
+        new UsageTracker(),
+        dataValidator,
+    );
+
+    return { dataGenerator, dataValidator };
+}
+
+before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "data-validator-"));
+});
+
+after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("products", () => {
+    it("clamps prices and stock to the allowed range", () => {
+        const dataValidator = new DataValidator();
+        const product = createProduct({ price: 50000, stock: -5, listPrice: 60000 });
+
+        assert.deepEqual(dataValidator.validateProduct(product, 10), []);
+        assert.equal(product.price, 10000);
+        assert.equal(product.stock, 0);
+        assert.equal(product.listPrice, 10000);
+        assert.equal(dataValidator.getSummary().repaired, 3);
+    });
+
+    it("rounds prices, stock and review points", () => {
+        const dataValidator = new DataValidator();
+        const product = createProduct({
+            price: 9.999,
+            stock: 4.6,
+            weight: 0.12345,
+            productReviews: [
+                { title: "Great", content: "Very refreshing.", points: 4.4 },
+                { title: "Empty", content: " ", points: 1 },
+            ],
+        });
+
+        assert.deepEqual(dataValidator.validateProduct(product, 10), []);
+        assert.equal(product.price, 10);
+        assert.equal(product.stock, 5);
+        assert.equal(product.weight, 0.123);
+        assert.deepEqual(
+            product.productReviews.map((review: Record<string, any>) => review.points),
+            [4],
+        );
+    });
+
+    it("ignores floating point noise", () => {
+        const dataValidator = new DataValidator();
+        const product = createProduct({ price: 19.990000000000002 });
+
+        dataValidator.validateProduct(product, 10);
+
+        assert.equal(product.price, 19.99);
+        assert.equal(dataValidator.getSummary().repaired, 0);
+    });
+
+    it("returns the errors that can't be repaired", () => {
+        const dataValidator = new DataValidator();
+        const product = createProduct({ name: " ", price: "cheap" });
+
+        assert.deepEqual(dataValidator.validateProduct(product, 200), [
+            "name is empty",
+            "price cheap is not a number",
+            "description has 6 words instead of at least 100",
+        ]);
+    });
+});
+
+describe("property groups", () => {
+    it("normalizes hex codes", () => {
+        const dataValidator = new DataValidator();
+
+        assert.equal(dataValidator.normalizeHexCode(" #ABC "), "#aabbcc");
+        assert.equal(dataValidator.normalizeHexCode("FF0000"), "#ff0000");
+        assert.equal(dataValidator.normalizeHexCode("red"), null);
+    });
+
+    it("repairs the colors and removes duplicate options", () => {
+        const dataValidator = new DataValidator();
+        const [group] = dataValidator.validatePropertyGroups([
+            {
+                name: "Color",
+                options: [
+                    { name: "Red", colorHexCode: "F00" },
+                    { name: "red", colorHexCode: "#ff0000" },
+                    { name: "Blue", colorHexCode: "#0000ff" },
+                    { name: "Lemon", colorHexCode: "yellow" },
+                ],
+            },
+        ]);
+
+        assert.deepEqual(group?.options, [
+            { name: "Red", colorHexCode: "#ff0000" },
+            { name: "Blue", colorHexCode: "#0000ff" },
+            { name: "Lemon" },
+        ]);
+        assert.equal(dataValidator.getSummary().repaired, 3);
+    });
+
+    it("drops new groups without options", () => {
+        const dataValidator = new DataValidator();
+        const groups = dataValidator.validatePropertyGroups([
+            { name: "Size", options: [{ name: " " }] },
+            { name: "Flavor", existing: true, options: [] },
+        ]);
+
+        assert.deepEqual(
+            groups.map((group) => group.name),
+            ["Flavor"],
+        );
+        assert.equal(dataValidator.getSummary().dropped, 1);
+    });
+});
+
+describe("regeneration", () => {
+    it("generates an invalid product again", async () => {
+        const { dataGenerator, dataValidator } = createGenerator(2);
+
+        const products = await dataGenerator.generateProducts(
+            "Soft drinks",
+            1,
+            [],
+            false,
+            false,
+            20,
+        );
+        const summary = dataValidator.getSummary();
+
+        assert.equal(products.length, 1);
+        assert.equal(summary.regenerated, 1);
+        assert.equal(summary.dropped, 0);
+        assert.equal(dataGenerator.taskRunner.failures.length, 0);
+    });
+
+    it("drops a product that stays invalid", async () => {
+        const { dataGenerator, dataValidator } = createGenerator(Infinity);
+
+        const products = await dataGenerator.generateProducts(
+            "Soft drinks",
+            1,
+            [],
+            false,
+            false,
+            20,
+        );
+        const summary = dataValidator.getSummary();
+
+        assert.equal(products.length, 0);
+        assert.equal(summary.regenerated, 2);
+        assert.equal(summary.dropped, 1);
+        assert.match(
+            dataGenerator.taskRunner.failures[0]?.error ?? "",
+            /No valid product could be generated/,
+        );
+    });
+});
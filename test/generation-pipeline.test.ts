@@ -0,0 +1,384 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import type { z } from "zod";
+import { DataGenerator } from "../src/data-generator.js";
+import { DataHydrator } from "../src/data-hydrator.js";
+import { DatasetStore } from "../src/dataset.js";
+import { FakeProvider } from "../src/fake-provider.js";
+import { DEFAULT_GENERATION_OPTIONS, GenerationPipeline } from "../src/generation-pipeline.js";
+import { ImageCache } from "../src/image-cache.js";
+import { RunStore } from "../src/run-store.js";
+import { parseScenario, ScenarioRunner } from "../src/scenario.js";
+import { TaskRunner } from "../src/task-runner.js";
+import { UsageTracker } from "../src/usage-tracker.js";
+import { MOCK_CLIENT_ID, MOCK_CLIENT_SECRET, MockAdminApi } from "./mock-admin-api.js";
+
+const OPTIONS = {
+    ...DEFAULT_GENERATION_OPTIONS,
+    productCount: 3,
+    descriptionWordCount: 20,
+    customerCount: 2,
+};
+
+let tempDir: string;
+let api: MockAdminApi;
+
+async function createPipeline(withGenerator = true, usageTracker = new UsageTracker()) {
+    const dataHydrator = new DataHydrator(new TaskRunner(2, 0, 0));
+
+    await dataHydrator.authenticateWithClientCredentials(
+        api.url,
+        MOCK_CLIENT_ID,
+        MOCK_CLIENT_SECRET,
+    );
+
+    const dataGenerator = new DataGenerator(
+        new FakeProvider(),
+        new ImageCache(path.join(tempDir, "images")),
+        new TaskRunner(2, 0, 0),
+        usageTracker,
+    );
+
+    return new GenerationPipeline(withGenerator ? dataGenerator : null, dataHydrator);
+}
+
+beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "generation-pipeline-"));
+    api = new MockAdminApi();
+    await api.start();
+});
+
+afterEach(async () => {
+    await api.stop();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("generation pipeline", () => {
+    it("generates a category and writes it to the environment", async () => {
+        const pipeline = await createPipeline();
+        const runStore = new RunStore(path.join(tempDir, "runs"));
+
+        const report = await pipeline.hydrate(OPTIONS, runStore);
+
+        assert.equal(report.products.length, 3);
+        assert.equal(report.customers, 2);
+        assert.deepEqual(report.failures, []);
+        assert.deepEqual(report.sync.rejected, []);
+        assert.equal(report.validation.dropped, 0);
+
+        const products = api.getSyncedPayload("product");
+
+        assert.deepEqual(
+            products.map((product) => product.name),
+            report.products,
+        );
+        assert.ok(products.every((product) => product.media.length === 1));
+        assert.ok(products.every((product) => /^2\d{12}$/.test(product.ean)));
+        assert.equal(api.getSyncedPayload("product_manufacturer").length, 1);
+        assert.equal(api.uploads.length, 4);
+        assert.deepEqual(
+            api.getSyncedPayload("property_group").map((group) => group.name),
+            report.propertyGroups,
+        );
+
+        const run = runStore.get(report.runId ?? "");
+
+        assert.deepEqual(
+            run?.entities.product,
+            products.map((product) => product.id),
+        );
+        assert.equal(run?.entities.customer?.length, 2);
+        assert.equal(run?.usage?.total.requests, report.usage.total.requests);
+    });
+
+    it("generates and validates everything before the first write", async () => {
+        const pipeline = await createPipeline();
+        const provider = pipeline.dataGenerator?.provider as FakeProvider;
+        const completeStructured = provider.completeStructured.bind(provider);
+        const writesBeforeCompletions: number[] = [];
+
+        provider.completeStructured = async (prompt, schema, schemaName) => {
+            writesBeforeCompletions.push(api.syncOperations.length);
+
+            return await completeStructured(prompt, schema, schemaName);
+        };
+
+        await pipeline.hydrate(
+            { ...OPTIONS, promotionCount: 1 },
+            new RunStore(path.join(tempDir, "runs")),
+        );
+
+        assert.ok(writesBeforeCompletions.length > 0);
+        assert.ok(writesBeforeCompletions.every((count) => count === 0));
+        assert.equal(api.getSyncedPayload("customer").length, 2);
+    });
+
+    it("stops generating once the budget is exceeded and reports what was written", async () => {
+        // Every request costs $1, so the budget is used up after three requests.
+        const usageTracker = new UsageTracker(
+            { inputTokens: 1000000, outputTokens: 0, image: 0 },
+            3,
+        );
+        const pipeline = await createPipeline(true, usageTracker);
+        const provider = pipeline.dataGenerator?.provider as FakeProvider;
+        const completeStructured = provider.completeStructured.bind(provider);
+        const runStore = new RunStore(path.join(tempDir, "runs"));
+
+        provider.completeStructured = async (prompt, schema, schemaName) => ({
+            data: (await completeStructured(prompt, schema, schemaName)).data,
+            usage: { promptTokens: 1, completionTokens: 0 },
+        });
+
+        const report = await pipeline.hydrate({ ...OPTIONS, productCount: 5 }, runStore);
+
+        assert.ok(report.usage.budgetExceeded);
+        assert.ok(report.products.length > 0 && report.products.length < 5);
+        assert.equal(report.customers, 0);
+        assert.deepEqual(report.failures, []);
+        assert.deepEqual(
+            api.getSyncedPayload("product").map((product) => product.name),
+            report.products,
+        );
+        assert.equal(runStore.get(report.runId ?? "")?.usage?.budgetExceeded, true);
+    });
+
+    it("leaves no run behind if the generation fails", async () => {
+        const pipeline = await createPipeline();
+        const provider = pipeline.dataGenerator?.provider as FakeProvider;
+        const runStore = new RunStore(path.join(tempDir, "runs"));
+
+        provider.completeStructured = async () => ({
+            data: null,
+            usage: { promptTokens: 0, completionTokens: 0 },
+        });
+
+        await assert.rejects(pipeline.hydrate(OPTIONS, runStore), /No products could be generated/);
+        assert.deepEqual(runStore.list(), []);
+        assert.equal(api.syncOperations.length, 0);
+    });
+
+    it("translates every category of the category tree", async () => {
+        const pipeline = await createPipeline();
+        const dataGenerator = pipeline.dataGenerator as DataGenerator;
+
+        dataGenerator.translateTexts = async (texts) => ({
+            "de-DE": Object.fromEntries(
+                Object.entries(texts).map(([key, text]) => [key, `${text} (de)`]),
+            ),
+        });
+
+        const dataset = await pipeline.generateDataset({
+            ...OPTIONS,
+            categoryDepth: 2,
+            locales: ["de-DE"],
+        });
+        const getCategories = (categoryTree: Record<string, any>[]): Record<string, any>[] =>
+            categoryTree.flatMap((category) => [
+                category,
+                ...getCategories(category.children ?? []),
+            ]);
+        const categories = getCategories(dataset.categoryTree ?? []);
+
+        assert.ok(categories.length > 0);
+        assert.ok(
+            categories.every(
+                (category) =>
+                    category.translations["de-DE"].name === `${category.name} (de)` &&
+                    category.translations["de-DE"].description === `${category.description} (de)`,
+            ),
+        );
+    });
+
+    it("generates products without options if no property group is left", async () => {
+        const provider = new FakeProvider();
+        const completeStructured = provider.completeStructured.bind(provider);
+        const schemas: z.ZodTypeAny[] = [];
+
+        provider.completeStructured = async (prompt, schema, schemaName) => {
+            schemas.push(schema);
+
+            return await completeStructured(prompt, schema, schemaName);
+        };
+
+        const products = await new DataGenerator(provider).generateProducts(
+            "Soft drinks",
+            1,
+            [],
+            false,
+            false,
+            20,
+        );
+
+        assert.equal(products.length, 1);
+        assert.ok(schemas.every((schema) => !("options" in (schema as z.AnyZodObject).shape)));
+    });
+
+    it("generates promotions for the category of the run", async () => {
+        const pipeline = await createPipeline();
+
+        const report = await pipeline.hydrate(
+            { ...OPTIONS, customerCount: 0, promotionCount: 2 },
+            new RunStore(path.join(tempDir, "runs")),
+        );
+
+        const promotions = api.getSyncedPayload("promotion");
+
+        assert.equal(report.promotions, 2);
+        assert.equal(api.getSyncedPayload("rule").length, 1);
+        // The fake provider only generates promotions with individual codes.
+        assert.ok(
+            promotions.every((promotion) =>
+                promotion.individualCodes.every((code: Record<string, any>) =>
+                    /^[A-Z0-9]+-[A-Z]{5}$/.test(code.code),
+                ),
+            ),
+        );
+    });
+
+    it("verifies the written products through the store api", async () => {
+        const pipeline = await createPipeline();
+
+        const report = await pipeline.hydrate(
+            { ...OPTIONS, customerCount: 0, verify: true },
+            new RunStore(path.join(tempDir, "runs")),
+        );
+
+        assert.equal(report.verification?.passed, 3);
+        assert.deepEqual(
+            report.verification?.products.map((product) => product.name),
+            report.products,
+        );
+    });
+
+    it("imports an exported dataset without generating anything", async () => {
+        const datasetDir = path.join(tempDir, "dataset");
+        const exported = await (await createPipeline()).exportDataset(OPTIONS, datasetDir);
+
+        assert.equal(api.syncOperations.length, 0);
+
+        const pipeline = await createPipeline(false);
+        const report = await pipeline.importDataset(
+            new DatasetStore(datasetDir).read(),
+            new RunStore(path.join(tempDir, "runs")),
+        );
+
+        assert.deepEqual(report.products, exported.products);
+        assert.deepEqual(
+            api.getSyncedPayload("product").map((product) => product.name),
+            exported.products,
+        );
+        assert.equal(api.uploads.length, 4);
+    });
+
+    it("reports rejected products of the environment", async () => {
+        const pipeline = await createPipeline();
+
+        api.rejectSync = (entity, payload) =>
+            entity === "product" && payload.name === "Fake product 3"
+                ? "This value is invalid."
+                : null;
+
+        const report = await pipeline.hydrate(
+            { ...OPTIONS, customerCount: 0 },
+            new RunStore(path.join(tempDir, "runs")),
+        );
+
+        assert.equal(report.sync.written["product"], 2);
+        assert.deepEqual(
+            report.sync.rejected.map((rejection) => rejection.name),
+            ["Fake product 3"],
+        );
+    });
+
+    it("reports the usage of each category and orders the products of all categories", async () => {
+        const runStore = new RunStore(path.join(tempDir, "runs"));
+        const report = await new ScenarioRunner(await createPipeline()).run(
+            parseScenario({
+                customerCount: 2,
+                orderCount: 3,
+                categories: [
+                    { name: "Soft drinks", productCount: 2, generateImages: false },
+                    { name: "Juices", productCount: 2, generateImages: false },
+                ],
+            }),
+            runStore,
+        );
+
+        assert.equal(report.customerError, null);
+        assert.equal(report.orders, 3);
+
+        const runs = report.categories.map((category) => runStore.get(category.runId ?? ""));
+        const productIds = runs.flatMap((run) => run?.entities.product ?? []);
+        const orderProductSearch = api
+            .getRequests("search/product")
+            .find((request) =>
+                request.body.filter?.some((filter: Record<string, any>) => filter.field === "id"),
+            );
+
+        assert.equal(productIds.length, 4);
+        assert.deepEqual(
+            orderProductSearch?.body.filter.find(
+                (filter: Record<string, any>) => filter.field === "id",
+            ).value,
+            productIds,
+        );
+        // The customers are generated after the runs of the categories are finished.
+        assert.equal(
+            runs.reduce((sum, run) => sum + (run?.usage?.total.requests ?? 0), 0),
+            report.usage.total.requests - (report.usage.phases.customers?.requests ?? 0),
+        );
+    });
+
+    it("reports no run for a category that fails before its run is started", async () => {
+        const pipeline = await createPipeline();
+        const provider = pipeline.dataGenerator?.provider as FakeProvider;
+        const runStore = new RunStore(path.join(tempDir, "runs"));
+        const scenarioRunner = new ScenarioRunner(pipeline);
+
+        scenarioRunner.onCategory = (category) => {
+            if (category === "Juices") {
+                provider.completeStructured = async () => {
+                    throw new Error("Generation failed.");
+                };
+            }
+        };
+
+        const report = await scenarioRunner.run(
+            parseScenario({
+                categories: [
+                    { name: "Soft drinks", productCount: 2, generateImages: false },
+                    { name: "Juices", productCount: 2, generateImages: false },
+                ],
+            }),
+            runStore,
+        );
+
+        assert.notEqual(report.categories[0]?.runId, null);
+        assert.equal(report.categories[0]?.error, null);
+        assert.equal(report.categories[1]?.runId, null);
+        assert.notEqual(report.categories[1]?.error, null);
+        assert.equal(runStore.list().length, 1);
+    });
+
+    it("reports failed customers of a scenario", async () => {
+        const pipeline = await createPipeline();
+
+        pipeline.dataHydrator.getSalesChannelCountry = async () => {
+            throw new Error("No country.");
+        };
+
+        const report = await new ScenarioRunner(pipeline).run(
+            parseScenario({
+                customerCount: 2,
+                categories: [{ name: "Soft drinks", productCount: 2, generateImages: false }],
+            }),
+            new RunStore(path.join(tempDir, "runs")),
+        );
+
+        assert.equal(report.customerError, "No country.");
+        assert.equal(report.categories[0]?.error, null);
+    });
+});
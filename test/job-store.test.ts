@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { JobStore } from "../src/job-store.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let tempDir: string;
+
+beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "job-store-"));
+});
+
+afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("job store", () => {
+    it("evicts finished jobs after their time to live", () => {
+        const jobStore = new JobStore(tempDir, HOUR_MS);
+        const finished = jobStore.create({});
+        const running = jobStore.create({});
+
+        jobStore.update(finished.id, { status: "completed" });
+        jobStore.update(running.id, { status: "running" });
+        jobStore.evictFinishedJobs(Date.now() + 2 * HOUR_MS);
+
+        assert.equal(jobStore.get(finished.id), undefined);
+        assert.ok(jobStore.get(running.id));
+        assert.deepEqual(fs.readdirSync(tempDir), [`${running.id}.json`]);
+    });
+
+    it("only sends the updates of a job to its listeners", () => {
+        const jobStore = new JobStore();
+        const jobs = [jobStore.create({}), jobStore.create({})];
+        const updates: string[] = [];
+        const unsubscribes = Array.from({ length: 20 }, () =>
+            jobStore.subscribe(jobs[0]?.id ?? "", (job) => updates.push(job.id)),
+        );
+
+        jobStore.update(jobs[1]?.id ?? "", { status: "running" });
+        jobStore.update(jobs[0]?.id ?? "", { status: "running" });
+        unsubscribes.forEach((unsubscribe) => unsubscribe());
+        jobStore.update(jobs[0]?.id ?? "", { status: "completed" });
+
+        assert.equal(updates.length, 20);
+        assert.ok(updates.every((id) => id === jobs[0]?.id));
+    });
+});
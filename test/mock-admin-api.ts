@@ -0,0 +1,411 @@
+import crypto from "node:crypto";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+
+export interface MockSyncOperation {
+    key: string;
+    entity: string;
+    action: string;
+    payload: Record<string, any>[];
+}
+
+export interface MockUpload {
+    mediaId: string;
+    extension: string | null;
+    fileName: string | null;
+    contentType: string | undefined;
+    size: number;
+}
+
+export interface MockRequest {
+    method: string;
+    path: string;
+    body: any;
+}
+
+// Returns an error message for entities the mock should reject in a sync request.
+export type MockSyncRejection = (entity: string, payload: Record<string, any>) => string | null;
+
+export const MOCK_CLIENT_ID = "client-id";
+export const MOCK_CLIENT_SECRET = "client-secret";
+export const MOCK_USER = "admin";
+export const MOCK_PASSWORD = "shopware";
+export const MOCK_ACCESS_KEY = "SWSCMOCKACCESSKEY";
+
+// Fields Shopware fills in for new entities, if the payload doesn't contain them.
+const MOCK_ENTITY_DEFAULTS: Record<string, Record<string, any>> = {
+    product: { active: true },
+};
+
+// The data a fresh Shopware installation provides and the generator relies on.
+export function createMockEntities(): Record<string, Record<string, any>[]> {
+    return {
+        "sales-channel": [
+            {
+                id: "storefront",
+                name: "Storefront",
+                navigationCategoryId: "home",
+                currencyId: "eur",
+                languageId: "english",
+                customerGroupId: "customer-group",
+                paymentMethodId: "invoice",
+                shippingMethodId: "standard",
+                countryId: "germany",
+                accessKey: MOCK_ACCESS_KEY,
+                domains: [{ id: "domain", url: "http://localhost" }],
+            },
+        ],
+        tax: [{ id: "tax-19", name: "Standard rate", taxRate: 19 }],
+        currency: [{ id: "eur", isoCode: "EUR" }],
+        country: [{ id: "germany", name: "Germany" }],
+        language: [
+            { id: "english", locale: { code: "en-GB" } },
+            { id: "german", locale: { code: "de-DE" } },
+        ],
+        salutation: [
+            { id: "mr", salutationKey: "mr" },
+            { id: "mrs", salutationKey: "mrs" },
+            { id: "not-specified", salutationKey: "not_specified" },
+        ],
+        "state-machine-state": [
+            ["order.state", "open"],
+            ["order.state", "completed"],
+            ["order.state", "cancelled"],
+            ["order_transaction.state", "open"],
+            ["order_transaction.state", "paid"],
+            ["order_transaction.state", "cancelled"],
+            ["order_delivery.state", "open"],
+            ["order_delivery.state", "shipped"],
+            ["order_delivery.state", "cancelled"],
+        ].map(([stateMachine, state]) => ({
+            id: `${stateMachine}.${state}`,
+            technicalName: state,
+            stateMachine: { technicalName: stateMachine },
+        })),
+        category: [{ id: "home", name: "Home", parentId: null }],
+        "property-group": [],
+        product: [],
+    };
+}
+
+// A stand-in for the endpoints of the Shopware Admin API the generator uses. It keeps written
+// entities, so later searches find them, and records every request for assertions. The Store API
+// serves the written products that are visible in the sales channel of the access key.
+export class MockAdminApi {
+    public readonly entities = createMockEntities();
+    public readonly requests: MockRequest[] = [];
+    public readonly syncOperations: MockSyncOperation[] = [];
+    public readonly uploads: MockUpload[] = [];
+
+    public rejectSync: MockSyncRejection | null = null;
+    // Errors without a pointer, added to the next rejected sync request.
+    public unassignedSyncErrors: Record<string, any>[] = [];
+    public accessToken = "access-token";
+
+    private server: Server | null = null;
+    private tokenCount = 0;
+
+    async start() {
+        const app = express();
+
+        app.use(express.json({ limit: "50mb" }));
+        app.use((request, _response, next) => {
+            this.requests.push({ method: request.method, path: request.path, body: request.body });
+            next();
+        });
+
+        app.post("/api/oauth/token", (request, response) => this.handleToken(request, response));
+
+        app.use("/api", (request, response, next) => {
+            if (request.headers.authorization !== `Bearer ${this.accessToken}`) {
+                response
+                    .status(401)
+                    .send({ errors: [{ status: "401", code: "9", title: "Unauthorized" }] });
+                return;
+            }
+
+            next();
+        });
+
+        app.post("/api/search/:entity", (request, response) => {
+            const data = this.search(request.params.entity, request.body ?? {});
+
+            response.send({ total: data.length, data: data });
+        });
+
+        app.post("/api/search-ids/:entity", (request, response) => {
+            const data = this.search(request.params.entity, request.body ?? {});
+
+            response.send({ total: data.length, data: data.map((entity) => entity.id) });
+        });
+
+        app.post("/api/category", (request, response) => {
+            const category = { id: crypto.randomUUID().replace(/-/g, ""), ...request.body };
+
+            this.getEntities("category").push(category);
+            response.send({ data: category });
+        });
+
+        app.post("/api/_action/sync", (request, response) => this.handleSync(request, response));
+
+        app.post(
+            "/api/_action/media/:id/upload",
+            express.raw({ type: "*/*", limit: "50mb" }),
+            (request, response) => {
+                this.uploads.push({
+                    mediaId: request.params.id,
+                    extension: (request.query["extension"] as string) ?? null,
+                    fileName: (request.query["fileName"] as string) ?? null,
+                    contentType: request.headers["content-type"],
+                    size: Buffer.isBuffer(request.body) ? request.body.length : 0,
+                });
+                response.status(204).send();
+            },
+        );
+
+        app.use("/store-api", (request, response, next) => {
+            if (!this.getStoreSalesChannel(request)) {
+                response.status(401).send({
+                    errors: [{ status: "401", code: "FRAMEWORK__API_INVALID_ACCESS_KEY" }],
+                });
+                return;
+            }
+
+            next();
+        });
+
+        app.post("/store-api/product", (request, response) => {
+            const ids: string[] | undefined = request.body?.ids;
+            const data = this.getStoreProducts(request).filter(
+                (product) => !ids || ids.includes(product.id),
+            );
+
+            response.send({ total: data.length, elements: data });
+        });
+
+        app.post("/store-api/product-listing/:categoryId", (request, response) => {
+            const limit = request.body?.limit ?? 24;
+            const page = request.body?.p ?? 1;
+            const data = this.getStoreProducts(request).filter((product) =>
+                (product.categories || []).some(
+                    (category: Record<string, any>) => category.id === request.params.categoryId,
+                ),
+            );
+
+            response.send({
+                total: data.length,
+                page: page,
+                limit: limit,
+                elements: data.slice((page - 1) * limit, page * limit),
+            });
+        });
+
+        app.post("/store-api/product/:id/reviews", (request, response) => {
+            const product = this.getStoreProducts(request).find(
+                (candidate) => candidate.id === request.params.id,
+            );
+            const reviews = (product?.productReviews || []).filter(
+                (review: Record<string, any>) => review.status,
+            );
+
+            response.send({ total: reviews.length, elements: reviews });
+        });
+
+        await new Promise<void>((resolve) => {
+            this.server = app.listen(0, "127.0.0.1", () => resolve());
+        });
+
+        return this.url;
+    }
+
+    async stop() {
+        await new Promise<void>((resolve, reject) => {
+            if (!this.server) {
+                resolve();
+                return;
+            }
+
+            this.server.close((err) => (err ? reject(err) : resolve()));
+        });
+    }
+
+    get url() {
+        const address = this.server?.address() as AddressInfo | null;
+
+        return `http://127.0.0.1:${address?.port}`;
+    }
+
+    // Lets the current token expire, so the next request has to renew it.
+    expireToken() {
+        this.accessToken = `access-token-${++this.tokenCount}`;
+    }
+
+    getEntities(entity: string) {
+        const name = entity.replace(/_/g, "-");
+
+        this.entities[name] ??= [];
+
+        return this.entities[name];
+    }
+
+    // All entities of the given type that were written successfully by sync requests.
+    getSyncedPayload(entity: string, action = "upsert") {
+        return this.syncOperations
+            .filter((operation) => operation.entity === entity && operation.action === action)
+            .flatMap((operation) => operation.payload);
+    }
+
+    getRequests(path: string) {
+        return this.requests.filter((request) => request.path === `/api/${path}`);
+    }
+
+    private getStoreSalesChannel(request: express.Request) {
+        return this.getEntities("sales-channel").find(
+            (salesChannel) => salesChannel.accessKey === request.headers["sw-access-key"],
+        );
+    }
+
+    // Active products visible in the sales channel, with the cover of uploaded media only.
+    private getStoreProducts(request: express.Request) {
+        const salesChannel = this.getStoreSalesChannel(request);
+
+        return this.getEntities("product")
+            .filter((product) =>
+                (product.visibilities || []).some(
+                    (visibility: Record<string, any>) =>
+                        visibility.salesChannelId === salesChannel?.id,
+                ),
+            )
+            .map((product): Record<string, any> => {
+                const cover = (product.media || []).find(
+                    (productMedia: Record<string, any>) => productMedia.id === product.coverId,
+                );
+                const uploaded = this.uploads.some((upload) => upload.mediaId === cover?.media.id);
+
+                return {
+                    ...product,
+                    cover: cover
+                        ? { ...cover, media: { ...cover.media, url: uploaded ? "/cover.png" : "" } }
+                        : null,
+                };
+            });
+    }
+
+    private handleToken(request: express.Request, response: express.Response) {
+        const body = request.body ?? {};
+        const valid =
+            body.grant_type === "refresh_token" ||
+            (body.grant_type === "client_credentials" &&
+                body.client_id === MOCK_CLIENT_ID &&
+                body.client_secret === MOCK_CLIENT_SECRET) ||
+            (body.grant_type === "password" &&
+                body.username === MOCK_USER &&
+                body.password === MOCK_PASSWORD);
+
+        if (!valid) {
+            response.status(401).send({
+                errors: [{ status: "401", code: "invalid_client", title: "Invalid credentials" }],
+            });
+            return;
+        }
+
+        response.send({
+            token_type: "Bearer",
+            expires_in: 600,
+            access_token: this.accessToken,
+            refresh_token: body.grant_type === "password" ? "refresh-token" : undefined,
+        });
+    }
+
+    // Like Shopware, a sync request with an invalid entity is rejected as a whole.
+    private handleSync(request: express.Request, response: express.Response) {
+        const operations = Object.entries(request.body ?? {}) as [string, Record<string, any>][];
+        const errors = operations.flatMap(([key, operation]) =>
+            (operation.payload ?? []).flatMap((entity: Record<string, any>, index: number) => {
+                const error =
+                    operation.action === "upsert"
+                        ? this.rejectSync?.(operation.entity, entity)
+                        : null;
+
+                return error
+                    ? [
+                          {
+                              status: "400",
+                              code: "VIOLATION",
+                              detail: error,
+                              source: { pointer: `/${key}/${index}/name` },
+                          },
+                      ]
+                    : [];
+            }),
+        );
+
+        if (errors.length) {
+            errors.push(...this.unassignedSyncErrors.splice(0));
+            response.status(400).send({ errors: errors });
+            return;
+        }
+
+        operations.forEach(([key, operation]) => {
+            this.syncOperations.push({
+                key: key,
+                entity: operation.entity,
+                action: operation.action,
+                payload: operation.payload ?? [],
+            });
+
+            const entities = this.getEntities(operation.entity);
+            const existing = new Map(entities.map((entity) => [entity.id, entity]));
+            const ids = new Set(operation.payload.map((entity: Record<string, any>) => entity.id));
+            const remaining = entities.filter((entity) => !ids.has(entity.id));
+
+            // An upsert only changes the fields of existing entities it contains.
+            entities.splice(
+                0,
+                entities.length,
+                ...remaining,
+                ...(operation.action === "upsert"
+                    ? operation.payload.map((entity: Record<string, any>) => ({
+                          ...MOCK_ENTITY_DEFAULTS[operation.entity],
+                          ...existing.get(entity.id),
+                          ...entity,
+                      }))
+                    : []),
+            );
+        });
+
+        response.send({ success: true, data: {} });
+    }
+
+    // Supports the criteria the generator sends: ids, limit and equals/equalsAny filters.
+    private search(entity: string, criteria: Record<string, any>) {
+        const filters: Record<string, any>[] = criteria.filter ?? [];
+        const data = this.getEntities(entity).filter(
+            (candidate) =>
+                (!criteria.ids || criteria.ids.includes(candidate.id)) &&
+                filters.every((filter) => {
+                    const value = this.getFieldValue(candidate, filter.field) ?? null;
+                    const matches = (fieldValue: any) =>
+                        filter.type === "equalsAny"
+                            ? filter.value.includes(fieldValue)
+                            : fieldValue === filter.value;
+
+                    return Array.isArray(value) ? value.some(matches) : matches(value);
+                }),
+        );
+
+        return criteria.limit ? data.slice(0, criteria.limit) : data;
+    }
+
+    // Fields of to-many associations, e.g. categories.id, give the values of all associated entities.
+    private getFieldValue(entity: Record<string, any>, field: string) {
+        return field
+            .split(".")
+            .reduce(
+                (value, key) =>
+                    Array.isArray(value) ? value.map((item) => item?.[key]) : value?.[key],
+                entity as any,
+            );
+    }
+}
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { z } from "zod";
+import { DataGenerator } from "../src/data-generator.js";
+import { FakeProvider } from "../src/fake-provider.js";
+import { RecordingProvider } from "../src/recording-provider.js";
+
+const SCHEMA = z.object({ name: z.string() });
+
+let tempDir: string;
+
+beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "recording-provider-"));
+});
+
+afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("recording provider", () => {
+    it("replaces only the files of an existing recording", async () => {
+        const recordingDir = path.join(tempDir, "recording");
+        const recorder = RecordingProvider.record(new FakeProvider(), recordingDir);
+
+        await recorder.completeStructured("prompt", SCHEMA, "product");
+        await recorder.generateImage("image", "16x16");
+        fs.writeFileSync(path.join(recordingDir, "notes.txt"), "keep");
+
+        RecordingProvider.record(new FakeProvider(), recordingDir);
+
+        assert.deepEqual(fs.readdirSync(recordingDir).sort(), [
+            "images",
+            "notes.txt",
+            "recording.json",
+        ]);
+        assert.deepEqual(fs.readdirSync(path.join(recordingDir, "images")), []);
+    });
+
+    it("refuses to record into a directory without a recording", () => {
+        fs.writeFileSync(path.join(tempDir, "package.json"), "{}");
+
+        assert.throws(
+            () => RecordingProvider.record(new FakeProvider(), tempDir),
+            /isn't empty and contains no recording/,
+        );
+        assert.ok(fs.existsSync(path.join(tempDir, "package.json")));
+    });
+
+    it("counts prompts that aren't in the recording", async () => {
+        const recorder = RecordingProvider.record(new FakeProvider(), tempDir);
+
+        await recorder.completeStructured("first", SCHEMA, "product");
+        await recorder.completeStructured("second", SCHEMA, "product");
+
+        const replay = RecordingProvider.replay(tempDir);
+
+        await replay.completeStructured("second", SCHEMA, "product");
+        await replay.completeStructured("other", SCHEMA, "product");
+
+        assert.equal(replay.replayMisses, 1);
+    });
+
+    it("replays the random values of the generated data", () => {
+        const recorder = RecordingProvider.record(new FakeProvider(), tempDir);
+        const replay = RecordingProvider.replay(tempDir);
+
+        const recorded = new DataGenerator(recorder);
+        const replayed = new DataGenerator(replay);
+
+        assert.equal(replay.seed, recorder.seed);
+        assert.equal(replayed.createEan("Lemonade"), recorded.createEan("Lemonade"));
+        assert.deepEqual(
+            replayed.createIndividualCodes("FIZZ"),
+            recorded.createIndividualCodes("FIZZ"),
+        );
+
+        // The order dates are relative to the current time, only their distribution is replayed.
+        const withoutDates = (orders: Record<string, any>[]) =>
+            orders.map(({ orderDate, ...order }) => order);
+
+        assert.deepEqual(
+            withoutDates(replayed.generateOrders(10, 3, 5)),
+            withoutDates(recorded.generateOrders(10, 3, 5)),
+        );
+    });
+});
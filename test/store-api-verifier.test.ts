@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { DataHydrator } from "../src/data-hydrator.js";
+import { FakeProvider } from "../src/fake-provider.js";
+import { StoreApiVerifier } from "../src/store-api-verifier.js";
+import { TaskRunner } from "../src/task-runner.js";
+import { MOCK_CLIENT_ID, MOCK_CLIENT_SECRET, MockAdminApi } from "./mock-admin-api.js";
+
+let api: MockAdminApi;
+let dataHydrator: DataHydrator;
+
+async function hydrateProducts(names: string[]) {
+    const image = (await new FakeProvider().generateImage("product", "16x16")) ?? "";
+
+    await dataHydrator.hydrateEnvWithProducts(
+        names.map((name) => {
+            return {
+                name: name,
+                description: `<p>The description of ${name}.</p>`,
+                price: 11.9,
+                stock: 20,
+                image: { name: name, type: ".png", data: image },
+                options: [{ id: "red" }],
+                productReviews: [
+                    {
+                        externalUser: "Anna",
+                        externalEmail: "anna@example.com",
+                        title: "Great",
+                        content: "Tastes great.",
+                        points: 5,
+                        status: true,
+                        translations: { "de-DE": { title: "Toll", content: "Schmeckt toll." } },
+                    },
+                ],
+            };
+        }),
+        "soft drinks",
+    );
+}
+
+async function verify() {
+    const verifier = new StoreApiVerifier(
+        api.url,
+        await dataHydrator.getStandardSalesChannel(),
+        new TaskRunner(2, 0, 0),
+    );
+
+    return await verifier.verifyProducts(dataHydrator.expectedProducts);
+}
+
+function getProduct(name: string) {
+    const product = api.getEntities("product").find((candidate) => candidate.name === name);
+
+    assert.ok(product);
+
+    return product;
+}
+
+beforeEach(async () => {
+    api = new MockAdminApi();
+    await api.start();
+
+    dataHydrator = new DataHydrator(new TaskRunner(2, 0, 0));
+    await dataHydrator.authenticateWithClientCredentials(
+        api.url,
+        MOCK_CLIENT_ID,
+        MOCK_CLIENT_SECRET,
+    );
+});
+
+afterEach(async () => {
+    await api.stop();
+});
+
+describe("store api verification", () => {
+    it("passes products the storefront shows", async () => {
+        await hydrateProducts(["Lemonade", "Cola"]);
+
+        const report = await verify();
+
+        assert.equal(report.salesChannel, "Storefront");
+        assert.equal(report.passed, 2);
+        assert.deepEqual(report.errors, []);
+        assert.equal(api.requests.filter((request) => request.path.endsWith("/reviews")).length, 2);
+    });
+
+    it("reports what's missing for each product", async () => {
+        await hydrateProducts(["Lemonade", "Cola", "Juice", "Water"]);
+
+        getProduct("Lemonade").visibilities = [];
+        getProduct("Cola").categories = [{ id: "home" }];
+        getProduct("Juice").properties = [];
+        getProduct("Water").productReviews = [];
+        api.uploads.splice(0, api.uploads.length);
+
+        const report = await verify();
+
+        assert.equal(report.passed, 0);
+        assert.equal(report.failed, 4);
+        assert.deepEqual(
+            report.products.map((product) => [product.name, product.errors]),
+            [
+                ["Lemonade", ["not visible in the sales channel"]],
+                ["Cola", ["not listed in its category", "cover image is missing"]],
+                ["Juice", ["cover image is missing", "1 of 1 properties are missing"]],
+                ["Water", ["cover image is missing", "0 of 1 reviews are visible"]],
+            ],
+        );
+    });
+
+    it("fails all products with an invalid access key or without a domain", async () => {
+        await hydrateProducts(["Lemonade"]);
+
+        const [salesChannel] = api.getEntities("sales-channel");
+
+        assert.ok(salesChannel);
+
+        const verifier = new StoreApiVerifier(
+            api.url,
+            { ...salesChannel, domains: [], accessKey: "SWSCINVALID" },
+            new TaskRunner(2, 0, 0),
+        );
+        const report = await verifier.verifyProducts(dataHydrator.expectedProducts);
+
+        assert.equal(report.failed, 1);
+        assert.equal(report.errors[0], "Sales channel Storefront has no domain.");
+        assert.match(report.errors[1] ?? "", /^Store API request failed: .*401/);
+    });
+});